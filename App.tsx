@@ -1,20 +1,31 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { 
   Play, Pause, RotateCcw, Settings as SettingsIcon, 
   BarChart2, Timer as TimerIcon, Tag, Plus, CheckCircle, X, PlusCircle, Trash2,
-  ChevronUp, ChevronDown, Clock, Watch, LogOut, User as UserIcon, MoreVertical, Edit
+  ChevronUp, ChevronDown, ChevronRight, Clock, Watch, LogOut, User as UserIcon, MoreVertical, Edit, Archive, ArchiveRestore, AlertTriangle, ListTodo, Star, Pencil
 } from 'lucide-react';
-import { Settings, Session, Project, ProjectColor, ActiveTimer } from './types';
-import { PROJECT_COLORS, DEFAULT_PROJECTS } from './constants';
+import { Settings, Session, SessionChange, SessionEditor, Project, Task, TaskStatus, TagDefinition, ProjectColor, ProjectTimerDefaults, ProjectBudget, BudgetPeriod, ProjectBilling, ColorTheme, ActiveTimer, TimerPhase, BreakRecord, TimerTransitionResult, SyncStatus, AnalyticsPeriod, SessionCursor, DailyRollup } from './types';
+import { DEFAULT_PROJECTS, DEFAULT_SETTINGS, TIMER_PHASE_LABELS, HISTORY_PAGE_SIZE, MAX_SESSION_HOURS } from './constants';
 import { TimerDisplay } from './components/TimerDisplay';
 import { Button } from './components/ui/Button';
 import { Modal } from './components/ui/Modal';
 import { SettingsForm } from './components/SettingsForm';
 import { Dashboard } from './components/Dashboard';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
+import { Toast } from './components/ui/Toast';
+import { AuthProvider, useAuth, AppUser } from './contexts/AuthContext';
 import { Login } from './components/Login';
 import * as db from './services/db';
+import { createTimerEngine, getProjectTimerSettings } from './lib/timerEngine';
+import { getAnalyticsStart, getLiveSessionsStart, getSessionRangesToFetch, getTrashCutoff, validateSessionRange } from './lib/sessions';
+import { toDateKey } from './lib/rollups';
+import { flattenProjectTree, getParentOptions, ProjectTreeNode } from './lib/projects';
+import { getColorTheme, getUnusedPaletteColor } from './lib/colors';
+import { getKnownTags, getTagColors, normalizeTagName, replaceTag } from './lib/tags';
+import { getProjectTasks, TASK_STATUS_LABELS } from './lib/tasks';
+import { BUDGET_PERIOD_LABELS, formatBudgetHours, getApplicableBudgets, getBudgetRollupsSince, getBudgetUsages, BudgetUsage } from './lib/budgets';
+import { ProjectColorPicker } from './components/ProjectColorPicker';
 
 // Sound utility (simple beep)
 const playNotificationSound = () => {
@@ -36,14 +47,35 @@ const playNotificationSound = () => {
   }
 };
 
+const timerEngine = createTimerEngine(db.getServerNow);
+
+// A rejected transition means another device changed the timer first; its snapshot brings this one up to date
+const logTimerConflict = (action: string) => (result: TimerTransitionResult) => {
+  if (result.ok === false) {
+    console.warn(`Timer ${action} skipped: ${result.conflict}`);
+  }
+};
+
 const AuthenticatedApp: React.FC = () => {
   const { user, logout } = useAuth();
   
   // --- State ---
   // Data State (now handled by Firestore subscriptions)
-  const [settings, setSettings] = useState<Settings>({ timerDuration: 25, darkMode: false });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [projects, setProjects] = useState<Project[]>([]);
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tagDefinitions, setTagDefinitions] = useState<TagDefinition[]>([]);
+  const [liveSessions, setLiveSessions] = useState<Session[]>([]);
+  // Sessions older than the live window, fetched a page at a time from History
+  const [olderSessions, setOlderSessions] = useState<Session[]>([]);
+  const [olderSessionsCursor, setOlderSessionsCursor] = useState<SessionCursor | null>(null);
+  const [rangeSessions, setRangeSessions] = useState<Session[]>([]); // Read once for the selected period, see below
+  const [isLoadingOlderSessions, setIsLoadingOlderSessions] = useState(false);
+  const [dailyRollups, setDailyRollups] = useState<DailyRollup[]>([]);
+  const [budgetRollups, setBudgetRollups] = useState<DailyRollup[]>([]); // Reach back as far as project budgets need
+  const [trashedSessions, setTrashedSessions] = useState<Session[]>([]);
+  const [recentlyDeletedSession, setRecentlyDeletedSession] = useState<Session | null>(null); // Offered for undo
+  const [timerError, setTimerError] = useState<string | null>(null); // Last timer change that failed outright
   const [activeProjectId, setActiveProjectId] = useState<string>('');
   
   // UI Loading State
@@ -51,61 +83,131 @@ const AuthenticatedApp: React.FC = () => {
 
   // Timer States - now synced from Firestore
   const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
-  const [displayTime, setDisplayTime] = useState({ timeLeft: 25 * 60, stopwatchSeconds: 0 }); // For smooth UI updates
+  const [displayTime, setDisplayTime] = useState({ timeLeft: 25 * 60, stopwatchSeconds: 0, overtimeSeconds: 0 }); // For smooth UI updates
   const [selectedMode, setSelectedMode] = useState<'pomodoro' | 'stopwatch'>('pomodoro'); // Mode selection when no timer active
   
   const [view, setView] = useState<'timer' | 'dashboard'>('timer');
+  const [analyticsPeriod, setAnalyticsPeriod] = useState<AnalyticsPeriod>('all');
+  const [compareAnalytics, setCompareAnalytics] = useState(false); // Show the previous equivalent period alongside
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // Session tracking state (for UI inputs, synced to activeTimer)
   const [currentNotes, setCurrentNotes] = useState('');
   const [currentTags, setCurrentTags] = useState<string[]>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState<string>(''); // Task the next timer is started on
+
+  // Task List State
+  const [isTasksModalOpen, setIsTasksModalOpen] = useState(false);
+  const [newTaskTitle, setNewTaskTitle] = useState('');
+  const [newTaskEstimate, setNewTaskEstimate] = useState('');
   const [newTagInput, setNewTagInput] = useState('');
 
+  // Tag Manager State
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [renameTagTo, setRenameTagTo] = useState('');
+  const [newRegistryTag, setNewRegistryTag] = useState('');
+
   // Project Creation State
   const [isNewProjectModalOpen, setIsNewProjectModalOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
-  const [newProjectColor, setNewProjectColor] = useState<ProjectColor>('blue');
+  const [newProjectColor, setNewProjectColor] = useState<ProjectColor>('');
+  const [newProjectParentId, setNewProjectParentId] = useState<string>('');
 
   // Project Edit State
   const [projectToEdit, setProjectToEdit] = useState<Project | null>(null);
   const [editProjectName, setEditProjectName] = useState('');
-  const [editProjectColor, setEditProjectColor] = useState<ProjectColor>('blue');
+  const [editProjectColor, setEditProjectColor] = useState<ProjectColor>('');
+  const [editProjectParentId, setEditProjectParentId] = useState<string>('');
+  // Timer defaults; blank means the global setting applies
+  const [editTimerMode, setEditTimerMode] = useState<'' | 'pomodoro' | 'stopwatch'>('');
+  const [editTimerDuration, setEditTimerDuration] = useState('');
+  const [editShortBreakDuration, setEditShortBreakDuration] = useState('');
+  const [editLongBreakDuration, setEditLongBreakDuration] = useState('');
+  const [editTimerTags, setEditTimerTags] = useState('');
+  const [editBudgetPeriod, setEditBudgetPeriod] = useState<'' | BudgetPeriod>('');
+  const [editBudgetHours, setEditBudgetHours] = useState('');
+  const [editHourlyRate, setEditHourlyRate] = useState('');
+  const [editCurrency, setEditCurrency] = useState('USD');
+  const [editTagRates, setEditTagRates] = useState(''); // "tag: rate" pairs, comma separated
+  const [collapsedProjectIds, setCollapsedProjectIds] = useState<Set<string>>(new Set());
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
 
   // Project Deletion State
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [deleteSessionsAction, setDeleteSessionsAction] = useState<'reassign' | 'delete'>('reassign');
+  const [reassignProjectId, setReassignProjectId] = useState<string>('');
+  const [showArchivedProjects, setShowArchivedProjects] = useState(false);
 
   const displayUpdateRef = useRef<number | null>(null); // For UI update interval
   const menuButtonRefs = useRef<Record<string, HTMLButtonElement | null>>({});
   const isSyncingFromFirestore = useRef(false); // Flag to prevent infinite loops
+  const completedPhaseRef = useRef<string | null>(null); // Phase already handled by the completion check
+
+  // Archived projects keep their history but can't be picked for new sessions
+  const pickerProjects = useMemo(() => projects.filter(p => !p.archived), [projects]);
+  const archivedProjects = useMemo(() => projects.filter(p => p.archived), [projects]);
+  const pickerTree: ProjectTreeNode[] = useMemo(
+    () => flattenProjectTree(pickerProjects, collapsedProjectIds),
+    [pickerProjects, collapsedProjectIds]
+  );
+  const editParentOptions: ProjectTreeNode[] = useMemo(
+    () => flattenProjectTree(getParentOptions(projectToEdit, pickerProjects), new Set()),
+    [projectToEdit, pickerProjects]
+  );
+  const newParentOptions: ProjectTreeNode[] = useMemo(
+    () => flattenProjectTree(pickerProjects, new Set()),
+    [pickerProjects]
+  );
 
-  const activeProject = projects.length > 0 
-    ? (projects.find(p => p.id === activeProjectId) || projects[0] || DEFAULT_PROJECTS[0])
+  const activeProject = pickerProjects.length > 0 
+    ? (pickerProjects.find(p => p.id === activeProjectId) || pickerProjects[0] || DEFAULT_PROJECTS[0])
     : DEFAULT_PROJECTS[0];
-  const colorTheme = PROJECT_COLORS[activeProject?.color || 'blue'];
+  const colorTheme: ColorTheme = getColorTheme(activeProject?.color, settings?.darkMode ?? false);
   
+  // Tasks offered for the next timer; a running timer shows the task it was started on
+  const activeProjectTasks: Task[] = useMemo(
+    () => getProjectTasks(tasks, activeProject?.id || '', true),
+    [tasks, activeProject?.id]
+  );
+  const selectedTask = activeTimer
+    ? tasks.find(t => t.id === activeTimer.taskId) || null
+    : activeProjectTasks.find(t => t.id === selectedTaskId) || null;
+
+  // A running timer keeps its own project's defaults, even if another project gets selected
+  const timerProject = (activeTimer && projects.find(p => p.id === activeTimer.projectId)) || activeProject;
+  const timerSettings: Settings = useMemo(
+    () => getProjectTimerSettings(settings, timerProject?.timerDefaults),
+    [settings, timerProject?.timerDefaults]
+  );
+
   // Computed timer values
   const timerMode = activeTimer?.mode || selectedMode;
+  const timerPhase: TimerPhase = activeTimer?.phase || 'work';
+  const timerRound = activeTimer?.round || 1;
   const isActive = activeTimer?.isActive || false;
-  const timeLeft = displayTime?.timeLeft ?? ((settings?.timerDuration || 25) * 60);
+  const timeLeft = displayTime?.timeLeft ?? ((timerSettings.timerDuration || 25) * 60);
   const stopwatchSeconds = displayTime?.stopwatchSeconds ?? 0;
+  const overtimeSeconds = displayTime?.overtimeSeconds ?? 0;
 
   // --- Effects for Data Syncing ---
 
   useEffect(() => {
     if (!user) return;
 
+    // Estimate this device's clock offset so timer maths runs on the server's clock
+    db.syncServerClock(user.uid);
+    // Accounts from before daily rollups existed need them built once
+    db.ensureDailyRollups(user.uid);
+    db.purgeExpiredTrash(user.uid, getTrashCutoff(db.getServerNow()), sessionEditor(user));
+
     // Subscribe to Data
     const unsubscribeProjects = db.subscribeToProjects(user.uid, (data) => {
       setProjects(data);
       setIsLoadingData(false);
     });
 
-    const unsubscribeSessions = db.subscribeToSessions(user.uid, (data) => {
-      setSessions(data);
-    });
-
     const unsubscribeSettings = db.subscribeToSettings(user.uid, (data) => {
       setSettings(data);
       // Sync activeProjectId from settings if it exists and is different
@@ -123,6 +225,12 @@ const AuthenticatedApp: React.FC = () => {
       }
     });
 
+    const unsubscribeTrash = db.subscribeToTrash(user.uid, setTrashedSessions);
+
+    const unsubscribeTasks = db.subscribeToTasks(user.uid, setTasks);
+
+    const unsubscribeTags = db.subscribeToTags(user.uid, setTagDefinitions);
+
     const unsubscribeActiveTimer = db.subscribeToActiveTimer(user.uid, (timer) => {
       try {
         setActiveTimer(timer);
@@ -130,10 +238,12 @@ const AuthenticatedApp: React.FC = () => {
         if (timer) {
           setCurrentNotes(timer.notes || '');
           setCurrentTags(timer.tags || []);
+          setSelectedTaskId(timer.taskId || '');
         } else {
           // Timer stopped, clear inputs
           setCurrentNotes('');
           setCurrentTags([]);
+          setSelectedTaskId('');
         }
       } catch (error) {
         console.error('Error handling activeTimer update:', error);
@@ -142,25 +252,165 @@ const AuthenticatedApp: React.FC = () => {
 
     return () => {
       unsubscribeProjects();
-      unsubscribeSessions();
       unsubscribeSettings();
+      unsubscribeTrash();
+      unsubscribeTasks();
+      unsubscribeTags();
       unsubscribeActiveTimer();
     };
   }, [user]);
 
+  // Only the recent days the Dashboard always shows, and a preset period reaching back further, stay
+  // live; anything older is paged in on request, so startup cost does not grow with history
+  const liveSessionsStart = useMemo(
+    () => getLiveSessionsStart(analyticsPeriod, Date.now()),
+    [analyticsPeriod]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+
+    setOlderSessions([]);
+    setOlderSessionsCursor({ endTime: liveSessionsStart, id: '' });
+
+    return db.subscribeToSessions(user.uid, liveSessionsStart, (data) => {
+      setLiveSessions(data);
+    });
+  }, [user, liveSessionsStart]);
+
+  // A custom range, and the previous period's last day when comparing, are read once rather than
+  // kept live, so a range years back doesn't keep every session since then subscribed
+  const sessionRangesToFetch = useMemo(
+    () => getSessionRangesToFetch(analyticsPeriod, Date.now(), compareAnalytics, liveSessionsStart),
+    [analyticsPeriod, compareAnalytics, liveSessionsStart]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    let isCurrent = true;
+    setRangeSessions([]);
+    Promise.all(sessionRangesToFetch.map(range => db.fetchSessionsEndingBetween(user.uid, range.start, range.end)))
+      .then((results) => {
+        if (isCurrent) setRangeSessions(results.flat());
+      })
+      .catch((error) => console.error('Error loading sessions for the selected period:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, sessionRangesToFetch]);
+
+  // Charts read per-day rollups, which are small enough to cover any period (all time included)
+  const dailyRollupsSince = analyticsPeriod === 'all'
+    ? undefined
+    : toDateKey(getAnalyticsStart(analyticsPeriod, Date.now(), compareAnalytics));
+
+  useEffect(() => {
+    if (!user) return;
+    return db.subscribeToDailyRollups(user.uid, dailyRollupsSince, setDailyRollups);
+  }, [user, dailyRollupsSince]);
+
+  // Budgets are measured over their own periods, independent of the Dashboard's
+  const budgetRollupsSince = getBudgetRollupsSince(projects, Date.now());
+
+  useEffect(() => {
+    if (!user) return;
+    return db.subscribeToDailyRollups(user.uid, budgetRollupsSince, setBudgetRollups);
+  }, [user, budgetRollupsSince]);
+
+  const budgetUsages: Record<string, BudgetUsage> = useMemo(
+    () => getBudgetUsages(projects, budgetRollups, Date.now()),
+    [projects, budgetRollups]
+  );
+  const projectsById: Record<string, Project> = useMemo(
+    () => Object.fromEntries(projects.map(p => [p.id, p])),
+    [projects]
+  );
+
+  // The budget (the project's own or a parent's) a running work phase would overrun by the time
+  // it ends; a stopwatch has no planned end, so only the time so far counts for it
+  const recordingSeconds = timerMode === 'stopwatch'
+    ? stopwatchSeconds
+    : (activeTimer?.initialDuration || 0) - timeLeft + overtimeSeconds;
+  const projectedSeconds = timerMode === 'stopwatch'
+    ? recordingSeconds
+    : Math.max(recordingSeconds, activeTimer?.initialDuration || 0);
+  const budgetWarning = activeTimer && timerPhase === 'work'
+    ? getApplicableBudgets(activeTimer.projectId, budgetUsages, projectsById)
+        .find(u => u.usedSeconds + projectedSeconds > u.budgetSeconds) || null
+    : null;
+
+  const sessions = useMemo(() => {
+    if (olderSessions.length === 0 && rangeSessions.length === 0) return liveSessions;
+    const seenIds = new Set(liveSessions.map(s => s.id));
+    const merged = [...liveSessions];
+    [...olderSessions, ...rangeSessions].forEach(s => {
+      if (seenIds.has(s.id)) return;
+      seenIds.add(s.id);
+      merged.push(s);
+    });
+    return merged;
+  }, [liveSessions, olderSessions, rangeSessions]);
+
+  const quickTags: string[] = useMemo(
+    () => tagDefinitions.filter(t => t.quick).map(t => t.name).sort((a, b) => a.localeCompare(b)),
+    [tagDefinitions]
+  );
+  const tagColors: Record<string, string> = useMemo(() => getTagColors(tagDefinitions), [tagDefinitions]);
+  const knownTags: string[] = useMemo(
+    () => getKnownTags(tagDefinitions, sessions, dailyRollups),
+    [tagDefinitions, sessions, dailyRollups]
+  );
+
+  // Sessions ending before this have not been fetched yet; null once all of history is loaded
+  const sessionsLoadedSince = olderSessionsCursor?.endTime ?? null;
+
+  const loadOlderSessions = async () => {
+    if (!user || !olderSessionsCursor || isLoadingOlderSessions) return;
+    setIsLoadingOlderSessions(true);
+    try {
+      const page = await db.fetchSessionsPage(user.uid, olderSessionsCursor, HISTORY_PAGE_SIZE);
+      setOlderSessions(prev => [...prev, ...page.sessions]);
+      setOlderSessionsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading older sessions:', error);
+    } finally {
+      setIsLoadingOlderSessions(false);
+    }
+  };
+
+  // Older pages and the period's ranges are one-off reads, so mirror changes to them locally
+  const patchOlderSessions = (update: (older: Session[]) => Session[]) => {
+    setOlderSessions(prev => prev.length === 0 ? prev : update(prev));
+    setRangeSessions(prev => prev.length === 0 ? prev : update(prev));
+  };
+
+  // Track whether offline changes are still waiting to reach Firestore
+  useEffect(() => {
+    if (!user) return;
+    let previousStatus: SyncStatus | null = null;
+    return db.subscribeToSyncStatus((status) => {
+      // The clock may have drifted while offline, so measure it again on reconnect
+      if (previousStatus === 'offline' && status !== 'offline') {
+        db.syncServerClock(user.uid);
+      }
+      previousStatus = status;
+      setSyncStatus(status);
+    });
+  }, [user]);
+
   // Ensure active project exists and sync to Firestore
   useEffect(() => {
-    if (!user || projects.length === 0) return;
+    if (!user || pickerProjects.length === 0) return;
     
     // Don't sync back to Firestore if we're currently syncing from Firestore
     if (isSyncingFromFirestore.current) return;
     
     // If no activeProjectId is set, use the one from settings or default to first project
     if (!activeProjectId) {
-      const projectIdToUse = settings?.activeProjectId || projects[0].id;
+      const projectIdToUse = settings?.activeProjectId || pickerProjects[0].id;
       // Verify the project exists
-      const projectExists = projects.some(p => p.id === projectIdToUse);
-      const finalProjectId = projectExists ? projectIdToUse : projects[0].id;
+      const projectExists = pickerProjects.some(p => p.id === projectIdToUse);
+      const finalProjectId = projectExists ? projectIdToUse : pickerProjects[0].id;
       
       setActiveProjectId(finalProjectId);
       // Update settings in Firestore if it's not already set or if we had to use a fallback
@@ -168,10 +418,10 @@ const AuthenticatedApp: React.FC = () => {
         db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: finalProjectId });
       }
     } else {
-      // Verify the activeProjectId still exists in projects
-      const projectExists = projects.some(p => p.id === activeProjectId);
+      // Verify the activeProjectId still exists and has not been archived
+      const projectExists = pickerProjects.some(p => p.id === activeProjectId);
       if (!projectExists) {
-        const firstProjectId = projects[0].id;
+        const firstProjectId = pickerProjects[0].id;
         setActiveProjectId(firstProjectId);
         db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: firstProjectId });
       } else if (settings?.activeProjectId !== activeProjectId) {
@@ -179,7 +429,7 @@ const AuthenticatedApp: React.FC = () => {
         db.updateSettingsInDb(user.uid, { ...settings, activeProjectId });
       }
     }
-  }, [projects, activeProjectId, user, settings]);
+  }, [pickerProjects, activeProjectId, user, settings]);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -192,27 +442,39 @@ const AuthenticatedApp: React.FC = () => {
     }
   }, [openMenuId]);
 
+  // Run a timer change. Conflicts are expected and only logged; anything else (e.g. permission
+  // denied, or a transaction that gave up retrying) means the change was lost, so the user is told.
+  const runTimerChange = useCallback((action: string, change: Promise<TimerTransitionResult>) => {
+    change.then(logTimerConflict(action)).catch((error) => {
+      console.error(`Timer ${action} failed:`, error);
+      setTimerError(`Couldn't save the timer ${action}${error?.message ? `: ${error.message}` : '.'}`);
+    });
+  }, []);
+
+  const dismissTimerError = useCallback(() => setTimerError(null), []);
+
   // Sync notes and tags changes to Firestore when activeTimer exists
   useEffect(() => {
     if (user && activeTimer) {
       // Debounce updates to avoid too many writes
       const timeoutId = setTimeout(() => {
         if (currentNotes !== activeTimer.notes || JSON.stringify(currentTags) !== JSON.stringify(activeTimer.tags)) {
-          db.updateTimerMetadata(user.uid, currentNotes, currentTags);
+          runTimerChange('notes update', db.updateTimerMetadata(user.uid, activeTimer.runId, currentNotes, currentTags));
         }
       }, 500);
       return () => clearTimeout(timeoutId);
     }
-  }, [currentNotes, currentTags, activeTimer, user]);
+  }, [currentNotes, currentTags, activeTimer, user, runTimerChange]);
 
   // Timer Logic: Calculate time from activeTimer and update display
   useEffect(() => {
     if (!activeTimer) {
       // No active timer, set defaults
-      const defaultDuration = (settings?.timerDuration || 25) * 60;
+      const defaultDuration = (timerSettings.timerDuration || 25) * 60;
       setDisplayTime({ 
         timeLeft: defaultDuration, 
-        stopwatchSeconds: 0 
+        stopwatchSeconds: 0,
+        overtimeSeconds: 0
       });
       document.title = 'ShadFocus';
       return;
@@ -220,59 +482,26 @@ const AuthenticatedApp: React.FC = () => {
 
     const calculateTime = () => {
       try {
-        const now = Date.now();
-        let elapsedSeconds = 0;
-        
-        // startTime = original start time (never changes)
-        // pausedDuration = total time that was actually paused (time between pause and resume)
-        // When paused: pausedAt marks when the pause happened
-        // elapsed = running time = total time - paused time
-        
         if (!activeTimer.startTime) {
           // Invalid timer data, reset
           return;
         }
         
-        const totalElapsed = (now - activeTimer.startTime) / 1000;
-        const pausedDuration = activeTimer.pausedDuration || 0;
+        const snapshot = timerEngine.snapshot(activeTimer, (timerSettings.timerDuration || 25) * 60);
+        setDisplayTime({
+          timeLeft: activeTimer.mode === 'pomodoro' ? Math.floor(snapshot.remainingSeconds) : 0,
+          stopwatchSeconds: activeTimer.mode === 'stopwatch' ? snapshot.displaySeconds : 0,
+          overtimeSeconds: snapshot.overtimeSeconds,
+        });
         
+        // Update document title
         if (activeTimer.isActive) {
-          // Timer is running: elapsed = total time - paused time
-          elapsedSeconds = totalElapsed - pausedDuration;
+          const minutes = Math.floor(snapshot.displaySeconds / 60);
+          const seconds = snapshot.displaySeconds % 60;
+          const sign = snapshot.overtimeSeconds > 0 ? '+' : '';
+          document.title = `ShadFocus - ${sign}${minutes}:${seconds.toString().padStart(2, '0')}`;
         } else {
-          // Timer is paused: calculate elapsed at the moment of pause
-          // The time since pausedAt is not counted (it's paused time)
-          const pausedAt = activeTimer.pausedAt || now;
-          const elapsedAtPause = (pausedAt - activeTimer.startTime) / 1000;
-          elapsedSeconds = elapsedAtPause - pausedDuration;
-        }
-      
-        if (activeTimer.mode === 'pomodoro') {
-          const initialDuration = activeTimer.initialDuration || (settings?.timerDuration || 25) * 60;
-          const remaining = Math.max(0, initialDuration - elapsedSeconds);
-          setDisplayTime({ timeLeft: Math.floor(remaining), stopwatchSeconds: 0 });
-          
-          // Update document title
-          if (activeTimer.isActive) {
-            const minutes = Math.floor(remaining / 60);
-            const seconds = Math.floor(remaining % 60);
-            document.title = `ShadFocus - ${minutes}:${seconds.toString().padStart(2, '0')}`;
-          } else {
-            document.title = 'ShadFocus';
-          }
-        } else {
-          // Stopwatch mode
-          const elapsed = Math.floor(elapsedSeconds);
-          setDisplayTime({ timeLeft: 0, stopwatchSeconds: elapsed });
-          
-          // Update document title
-          if (activeTimer.isActive) {
-            const minutes = Math.floor(elapsed / 60);
-            const seconds = elapsed % 60;
-            document.title = `ShadFocus - ${minutes}:${seconds.toString().padStart(2, '0')}`;
-          } else {
-            document.title = 'ShadFocus';
-          }
+          document.title = 'ShadFocus';
         }
       } catch (error) {
         console.error('Error calculating timer time:', error);
@@ -290,134 +519,215 @@ const AuthenticatedApp: React.FC = () => {
         clearInterval(displayUpdateRef.current);
       }
     };
-  }, [activeTimer, settings.timerDuration]);
+  }, [activeTimer, timerSettings.timerDuration]);
 
   // --- Handlers ---
 
   const resetTimer = useCallback(() => {
-    if (user) {
-      db.stopTimer(user.uid);
+    if (user && activeTimer) {
+      runTimerChange('reset', db.stopTimer(user.uid, activeTimer.runId));
     }
-  }, [user]);
+  }, [user, activeTimer, runTimerChange]);
 
-  const saveSession = useCallback((actualDurationSeconds?: number) => {
-    if (!user || !activeTimer) return;
-
-    let duration = 0;
-    if (actualDurationSeconds !== undefined) {
-      duration = actualDurationSeconds;
-    } else {
-      // Calculate from activeTimer
-      const now = Date.now();
-      const elapsedSeconds = (now - activeTimer.startTime) / 1000 - (activeTimer.pausedDuration || 0);
-      if (activeTimer.mode === 'pomodoro') {
-        const initialDuration = activeTimer.initialDuration || settings.timerDuration * 60;
-        duration = Math.max(0, initialDuration - elapsedSeconds);
-        // For pomodoro, we want the time that was actually used
-        duration = (activeTimer.initialDuration || settings.timerDuration * 60) - duration;
-      } else {
-        duration = Math.floor(elapsedSeconds);
-      }
-    }
+  const buildSession = useCallback((durationSeconds: number): Session | null => {
+    if (!activeTimer) return null;
 
     // Use project from activeTimer
     const projectToSave = projects.find(p => p.id === activeTimer.projectId) || activeProject || (projects.length > 0 ? projects[0] : DEFAULT_PROJECTS[0]);
 
-    const newSession: Session = {
+    return {
       id: crypto.randomUUID(),
       projectId: activeTimer.projectId,
-      projectName: activeTimer.projectName,
+      // Pick up a rename made while the timer was running
+      projectName: projectToSave.id === activeTimer.projectId ? projectToSave.name : activeTimer.projectName,
       startTime: activeTimer.startTime,
-      endTime: Date.now(),
-      durationSeconds: duration,
+      endTime: db.getServerNow(),
+      durationSeconds,
       notes: activeTimer.notes || currentNotes,
       tags: activeTimer.tags || currentTags,
       color: projectToSave.color,
+      ...(activeTimer.taskId && { taskId: activeTimer.taskId }),
+      mode: activeTimer.mode,
+    };
+  }, [activeTimer, activeProject, projects, currentNotes, currentTags]);
+
+  const buildBreak = useCallback((durationSeconds: number): BreakRecord | null => {
+    if (!activeTimer) return null;
+
+    const endTime = db.getServerNow();
+    return {
+      id: crypto.randomUUID(),
+      phase: activeTimer.phase === 'longBreak' ? 'longBreak' : 'shortBreak',
+      round: activeTimer.round || 1,
+      startTime: endTime - durationSeconds * 1000,
+      endTime,
+      durationSeconds,
     };
+  }, [activeTimer]);
 
-    // Save to Firestore
-    db.addSession(user.uid, newSession);
+  // Record the current phase (work as a Session, breaks separately) and move on, as one transaction
+  const completePhase = useCallback((durationSeconds: number) => {
+    if (!user || !activeTimer) return;
+
+    const isWork = (activeTimer.phase || 'work') === 'work';
+    const record = {
+      session: isWork ? buildSession(durationSeconds) ?? undefined : undefined,
+      breakRecord: !isWork && durationSeconds > 1 ? buildBreak(durationSeconds) ?? undefined : undefined,
+    };
+    const nextTimer = activeTimer.mode === 'pomodoro' ? timerEngine.next(activeTimer, timerSettings) : null;
 
-    // Clear active timer
-    db.stopTimer(user.uid);
-  }, [activeTimer, activeProject, projects, settings.timerDuration, currentNotes, currentTags, user]);
+    runTimerChange('completion', db.completeTimerPhase(user.uid, activeTimer.runId, record, nextTimer));
+  }, [activeTimer, user, timerSettings, buildSession, buildBreak, runTimerChange]);
 
   // Timer Logic: Completion Check for Pomodoro
   useEffect(() => {
     if (activeTimer && activeTimer.mode === 'pomodoro' && activeTimer.isActive && timeLeft === 0) {
       if (!user || !activeTimer) return;
+      const snapshot = timerEngine.snapshot(activeTimer, (timerSettings.timerDuration || 25) * 60);
+      // timeLeft is still 0 from the previous phase for one render after the next phase auto-starts
+      if (!snapshot.isComplete) return;
+      // Snapshot updates (e.g. notes) re-run this effect before the next phase replaces the timer
+      const phaseKey = activeTimer.runId || `${activeTimer.startTime}-${activeTimer.phase || 'work'}`;
+      if (completedPhaseRef.current === phaseKey) return;
+      completedPhaseRef.current = phaseKey;
       try {
         playNotificationSound();
-        // Save session with full duration
-        const initialDuration = activeTimer.initialDuration || (settings?.timerDuration || 25) * 60;
-        saveSession(initialDuration);
+        if (activeTimer.overtime && snapshot.phase === 'work') {
+          // Keep counting; the session is saved with the extra time when the user finishes
+          return;
+        }
+        // Record the phase with its full duration
+        completePhase(snapshot.recordedSeconds);
       } catch (error) {
         console.error('Error completing timer:', error);
       }
     }
-  }, [activeTimer, timeLeft, user, settings, saveSession]); // eslint-disable-line
+  }, [activeTimer, timeLeft, user, timerSettings, completePhase]); // eslint-disable-line
 
   const handleFinishEarly = () => {
     if (!user || !activeTimer) return;
     
     // Calculate actual duration from activeTimer
-    const now = Date.now();
-    const elapsedSeconds = (now - activeTimer.startTime) / 1000 - (activeTimer.pausedDuration || 0);
-    let duration = 0;
-    
-    if (activeTimer.mode === 'pomodoro') {
-      const initialDuration = activeTimer.initialDuration || settings.timerDuration * 60;
-      const remaining = Math.max(0, initialDuration - elapsedSeconds);
-      duration = initialDuration - remaining;
-    } else {
-      duration = Math.floor(elapsedSeconds);
-    }
+    const duration = timerEngine.snapshot(activeTimer, timerSettings.timerDuration * 60).recordedSeconds;
 
-    if (duration > 1) {
-      saveSession(duration);
+    if (timerPhase !== 'work') {
+      // Ending a break early skips ahead to the next work round
+      completePhase(duration);
+    } else if (duration > 1) {
+      completePhase(duration);
       playNotificationSound();
     } else {
       // If duration is too short, just stop the timer
-      db.stopTimer(user.uid);
+      runTimerChange('stop', db.stopTimer(user.uid, activeTimer.runId));
+    }
+  };
+
+  // Who to credit in a session's edit history
+  const sessionEditor = (signedIn: AppUser): SessionEditor => ({ uid: signedIn.uid, name: signedIn.displayName || 'You' });
+
+  const handleAddSession = (session: Session) => {
+    if (user) {
+      db.addSession(user.uid, session);
     }
   };
 
   const handleUpdateSession = (updatedSession: Session) => {
     if (user) {
-      db.updateSessionInDb(user.uid, updatedSession);
+      db.updateSessionInDb(user.uid, updatedSession, sessionEditor(user));
+      patchOlderSessions(older => older.map(s => s.id === updatedSession.id ? updatedSession : s));
+    }
+  };
+
+  // Loaded sessions only reach back to the live window, so overlaps are checked against a fresh read
+  // of the range. No session is longer than MAX_SESSION_HOURS, so none ending later can overlap it.
+  const checkSessionRange = useCallback(async (startTime: number, endTime: number, excludeIds: string[] = []) => {
+    if (!user) return null;
+    const candidates = await db.fetchSessionsEndingBetween(user.uid, startTime, endTime + MAX_SESSION_HOURS * 60 * 60 * 1000);
+    return validateSessionRange(startTime, endTime, candidates, Date.now(), excludeIds);
+  }, [user]);
+
+  const fetchSessionsEndingBetween = useCallback(async (from: number, to: number) => {
+    if (!user) return [];
+    return db.fetchSessionsEndingBetween(user.uid, from, to);
+  }, [user]);
+
+  const subscribeToSessionHistory = useCallback((sessionId: string, callback: (history: SessionChange[]) => void) => {
+    if (!user) return () => {};
+    return db.subscribeToSessionHistory(user.uid, sessionId, callback);
+  }, [user]);
+
+  const handleSplitSession = (parts: [Session, Session]) => {
+    if (user) {
+      db.splitSession(user.uid, parts, sessionEditor(user));
+      patchOlderSessions(older => older.some(s => s.id === parts[0].id)
+        ? [...older.filter(s => s.id !== parts[0].id), ...parts]
+        : older);
+    }
+  };
+
+  const handleMergeSessions = (merged: Session, removedIds: string[]) => {
+    if (user) {
+      db.mergeSessions(user.uid, merged, removedIds, sessionEditor(user));
+      patchOlderSessions(older => older
+        .filter(s => !removedIds.includes(s.id))
+        .map(s => s.id === merged.id ? merged : s));
     }
   };
 
   const handleDeleteSession = (sessionId: string) => {
     if (user) {
       db.deleteSession(user.uid, sessionId);
+      patchOlderSessions(older => older.filter(s => s.id !== sessionId));
+      setRecentlyDeletedSession(sessions.find(s => s.id === sessionId) || null);
     }
   };
 
+  const handleRestoreSession = (session: Session) => {
+    if (user) {
+      db.restoreSession(user.uid, session.id);
+      // Restored sessions from before the live window reappear in the loaded older pages
+      if (session.endTime < liveSessionsStart) {
+        const { deletedAt, ...restored } = session;
+        patchOlderSessions(older => [...older, restored]);
+      }
+    }
+  };
+
+  const handlePurgeSession = (sessionId: string) => {
+    if (user) {
+      db.purgeSession(user.uid, sessionId, sessionEditor(user));
+    }
+  };
+
+  const undoDeleteSession = () => {
+    if (recentlyDeletedSession) handleRestoreSession(recentlyDeletedSession);
+    setRecentlyDeletedSession(null);
+  };
+
+  const dismissUndoToast = useCallback(() => setRecentlyDeletedSession(null), []);
+
   const handleSaveSettings = (newSettings: Settings) => {
     if (user) {
       // Update settings immediately without closing modal or resetting timer
       db.updateSettingsInDb(user.uid, newSettings);
       setSettings(newSettings);
       // If timer is running and duration changed, update activeTimer
-      if (activeTimer && activeTimer.mode === 'pomodoro' && activeTimer.isActive && newSettings.timerDuration !== settings.timerDuration) {
-        // Update the initialDuration in activeTimer
-        // Explicitly construct timerData to avoid undefined values
-        const timerData: Omit<ActiveTimer, 'id'> = {
-          mode: activeTimer.mode,
-          isActive: activeTimer.isActive,
-          startTime: activeTimer.startTime,
-          pausedDuration: activeTimer.pausedDuration || 0,
-          projectId: activeTimer.projectId,
-          projectName: activeTimer.projectName,
-          notes: activeTimer.notes || '',
-          tags: activeTimer.tags || [],
-          initialDuration: newSettings.timerDuration * 60,
-        };
-        if (activeTimer.pausedAt) {
-          timerData.pausedAt = activeTimer.pausedAt;
-        }
-        db.startTimer(user.uid, timerData);
+      const newTimerDuration = getProjectTimerSettings(newSettings, timerProject?.timerDefaults).timerDuration;
+      if (activeTimer && activeTimer.mode === 'pomodoro' && activeTimer.isActive && timerPhase === 'work' && newTimerDuration !== timerSettings.timerDuration) {
+        // Update the initialDuration in activeTimer without restarting it
+        runTimerChange('duration change', db.updateTimerDuration(user.uid, activeTimer.runId, newTimerDuration * 60));
+      }
+      // Cycle options travel with the timer so every device advances it the same way
+      if (activeTimer && activeTimer.mode === 'pomodoro' && (
+        newSettings.autoStartBreaks !== settings.autoStartBreaks ||
+        newSettings.autoStartWork !== settings.autoStartWork ||
+        newSettings.overtime !== settings.overtime
+      )) {
+        runTimerChange('options update', db.updateTimerOptions(user.uid, activeTimer.runId, {
+          autoStartBreaks: newSettings.autoStartBreaks,
+          autoStartWork: newSettings.autoStartWork,
+          overtime: newSettings.overtime,
+        }));
       }
       // Don't close modal - let user continue adjusting settings
     }
@@ -429,58 +739,35 @@ const AuthenticatedApp: React.FC = () => {
     if (!activeTimer) {
       // Start new timer
       const projectToUse = activeProject || projects[0] || DEFAULT_PROJECTS[0];
-      const initialDuration = settings.timerDuration * 60;
+      const timerData = timerEngine.create(selectedMode, projectToUse, timerSettings, currentNotes, currentTags, selectedTask?.id);
       
-      const timerData: Omit<ActiveTimer, 'id'> = {
-        mode: selectedMode,
-        isActive: true,
-        startTime: Date.now(),
-        pausedDuration: 0,
-        projectId: projectToUse.id,
-        projectName: projectToUse.name,
-        notes: currentNotes,
-        tags: currentTags,
-      };
-      
-      // Only add initialDuration for pomodoro mode
-      if (selectedMode === 'pomodoro') {
-        timerData.initialDuration = initialDuration;
+      runTimerChange('start', db.startTimer(user.uid, timerData));
+      if (selectedTask?.status === 'todo') {
+        db.updateTask(user.uid, selectedTask.id, { status: 'in-progress' });
       }
-      
-      db.startTimer(user.uid, timerData);
     } else if (activeTimer.isActive) {
       // Pause timer
-      db.pauseTimer(user.uid);
+      runTimerChange('pause', db.pauseTimer(user.uid, activeTimer.runId));
     } else {
       // Resume timer
-      db.resumeTimer(user.uid);
+      runTimerChange('resume', db.resumeTimer(user.uid, activeTimer.runId));
     }
   };
 
   const changeDuration = (change: number) => {
-    const newDuration = Math.max(1, Math.min(180, settings.timerDuration + change));
+    const newDuration = Math.max(1, Math.min(180, timerSettings.timerDuration + change));
     if (user) {
-       // Optimistic update
-       setSettings(prev => ({ ...prev, timerDuration: newDuration }));
-       db.updateSettingsInDb(user.uid, { ...settings, timerDuration: newDuration });
+       if (timerProject?.timerDefaults?.timerDuration !== undefined) {
+         // The project sets its own duration, so that is what changes
+         db.updateProject(user.uid, timerProject.id, { timerDefaults: { ...timerProject.timerDefaults, timerDuration: newDuration } });
+       } else {
+         // Optimistic update
+         setSettings(prev => ({ ...prev, timerDuration: newDuration }));
+         db.updateSettingsInDb(user.uid, { ...settings, timerDuration: newDuration });
+       }
        // If timer is active and pomodoro, update activeTimer
-       if (activeTimer && activeTimer.mode === 'pomodoro' && activeTimer.isActive) {
-         // Explicitly construct timerData to avoid undefined values
-         const timerData: Omit<ActiveTimer, 'id'> = {
-           mode: activeTimer.mode,
-           isActive: activeTimer.isActive,
-           startTime: activeTimer.startTime,
-           pausedDuration: activeTimer.pausedDuration || 0,
-           projectId: activeTimer.projectId,
-           projectName: activeTimer.projectName,
-           notes: activeTimer.notes || '',
-           tags: activeTimer.tags || [],
-           initialDuration: newDuration * 60,
-         };
-         if (activeTimer.pausedAt) {
-           timerData.pausedAt = activeTimer.pausedAt;
-         }
-         db.startTimer(user.uid, timerData);
+       if (activeTimer && activeTimer.mode === 'pomodoro' && activeTimer.isActive && timerPhase === 'work') {
+         runTimerChange('duration change', db.updateTimerDuration(user.uid, activeTimer.runId, newDuration * 60));
        }
     }
   };
@@ -492,7 +779,7 @@ const AuthenticatedApp: React.FC = () => {
       setNewTagInput('');
       // Sync to Firestore if timer is active
       if (user && activeTimer) {
-        db.updateTimerMetadata(user.uid, currentNotes, updatedTags);
+        runTimerChange('tags update', db.updateTimerMetadata(user.uid, activeTimer.runId, currentNotes, updatedTags));
       }
     }
   };
@@ -502,7 +789,7 @@ const AuthenticatedApp: React.FC = () => {
     setCurrentTags(updatedTags);
     // Sync to Firestore if timer is active
     if (user && activeTimer) {
-      db.updateTimerMetadata(user.uid, currentNotes, updatedTags);
+      runTimerChange('tags update', db.updateTimerMetadata(user.uid, activeTimer.runId, currentNotes, updatedTags));
     }
   };
 
@@ -513,73 +800,253 @@ const AuthenticatedApp: React.FC = () => {
     setCurrentTags(updatedTags);
     // Sync to Firestore if timer is active
     if (user && activeTimer) {
-      db.updateTimerMetadata(user.uid, currentNotes, updatedTags);
+      runTimerChange('tags update', db.updateTimerMetadata(user.uid, activeTimer.runId, currentNotes, updatedTags));
     }
   };
 
-  const QUICK_TAGS = ['code', 'design', 'planning', 'bugfix'];
+  // Register a tag, or change its registry entry
+  const saveTagDefinition = (name: string, updates: Partial<TagDefinition>) => {
+    if (!user) return;
+    const existing = tagDefinitions.find(t => t.name === name);
+    if (existing) {
+      db.updateTag(user.uid, existing.id, updates);
+    } else {
+      db.addTag(user.uid, { name, color: null, quick: false, ...updates });
+    }
+  };
+
+  const registerTag = () => {
+    const name = normalizeTagName(newRegistryTag);
+    if (!name) return;
+    if (!knownTags.includes(name)) saveTagDefinition(name, {});
+    setNewRegistryTag('');
+  };
+
+  // Sessions paged in from History or read for the period are not live, so they are brought in line here
+  const retagLoadedSessions = (tag: string, to: string | null) => {
+    patchOlderSessions(older => older.map(s => s.tags?.includes(tag) ? { ...s, tags: replaceTag(s.tags, tag, to) } : s));
+    setCurrentTags(prev => prev.includes(tag) ? replaceTag(prev, tag, to) : prev);
+  };
+
+  const confirmRenameTag = () => {
+    const from = renamingTag;
+    const to = normalizeTagName(renameTagTo);
+    if (!user || !from) return;
+    if (!to || to === from) {
+      setRenamingTag(null);
+      return;
+    }
+    const message = knownTags.includes(to)
+      ? `Merge #${from} into #${to}? Every session tagged #${from} will be tagged #${to} instead.`
+      : `Rename #${from} to #${to} on every session?`;
+    if (!window.confirm(message)) return;
+    db.renameTag(user.uid, from, to);
+    retagLoadedSessions(from, to);
+    setRenamingTag(null);
+  };
+
+  const deleteTagEverywhere = (name: string) => {
+    if (!user) return;
+    if (!window.confirm(`Remove #${name} from every session? This can't be undone.`)) return;
+    db.deleteTag(user.uid, name);
+    retagLoadedSessions(name, null);
+  };
 
   const createProject = () => {
     if (!newProjectName.trim() || !user) return;
     
     db.addProject(user.uid, {
       name: newProjectName,
-      color: newProjectColor
+      color: newProjectColor,
+      parentId: newProjectParentId || null
     });
     
     // Optimistic switch handled by active ID after sync, but we can set it here if we generated ID
     // Simpler to just close modal and let listener update.
     setIsNewProjectModalOpen(false);
     setNewProjectName('');
-    setNewProjectColor('blue');
+    setNewProjectColor('');
+    setNewProjectParentId('');
+  };
+
+  const createTask = () => {
+    if (!newTaskTitle.trim() || !user || !activeProject) return;
+    const estimate = parseInt(newTaskEstimate, 10);
+    db.addTask(user.uid, {
+      projectId: activeProject.id,
+      title: newTaskTitle.trim(),
+      status: 'todo',
+      estimatedPomodoros: estimate > 0 ? estimate : null,
+      createdAt: db.getServerNow()
+    });
+    setNewTaskTitle('');
+    setNewTaskEstimate('');
+  };
+
+  const updateTask = (task: Task, updates: Partial<Task>) => {
+    if (!user) return;
+    db.updateTask(user.uid, task.id, updates);
+  };
+
+  const deleteTask = (task: Task) => {
+    if (!user) return;
+    if (!window.confirm(`Delete "${task.title}"? Time already logged against it is kept.`)) return;
+    db.deleteTask(user.uid, task.id);
+    if (selectedTaskId === task.id) setSelectedTaskId('');
   };
 
   const openEditProject = (project: Project) => {
     setProjectToEdit(project);
     setEditProjectName(project.name);
     setEditProjectColor(project.color);
+    setEditProjectParentId(project.parentId || '');
+    const defaults = project.timerDefaults || {};
+    setEditTimerMode(defaults.mode || '');
+    setEditTimerDuration(defaults.timerDuration?.toString() ?? '');
+    setEditShortBreakDuration(defaults.shortBreakDuration?.toString() ?? '');
+    setEditLongBreakDuration(defaults.longBreakDuration?.toString() ?? '');
+    setEditTimerTags((defaults.tags || []).join(', '));
+    setEditBudgetPeriod(project.budget?.period || '');
+    setEditBudgetHours(project.budget?.hours.toString() ?? '');
+    setEditHourlyRate(project.billing?.hourlyRate.toString() ?? '');
+    setEditCurrency(project.billing?.currency || 'USD');
+    setEditTagRates(Object.entries(project.billing?.tagRates || {}).map(([tag, rate]) => `${tag}: ${rate}`).join(', '));
     setOpenMenuId(null);
   };
 
+  // Only the fields that were filled in, so the rest keep following global settings
+  const buildTimerDefaults = (): ProjectTimerDefaults | null => {
+    const minutes = (value: string) => {
+      const n = parseInt(value, 10);
+      return Number.isFinite(n) && n > 0 ? Math.min(180, n) : undefined;
+    };
+    const tags = editTimerTags.split(',').map(t => t.trim()).filter(Boolean);
+    const defaults: ProjectTimerDefaults = {};
+    if (editTimerMode) defaults.mode = editTimerMode;
+    if (minutes(editTimerDuration)) defaults.timerDuration = minutes(editTimerDuration);
+    if (minutes(editShortBreakDuration)) defaults.shortBreakDuration = minutes(editShortBreakDuration);
+    if (minutes(editLongBreakDuration)) defaults.longBreakDuration = minutes(editLongBreakDuration);
+    if (tags.length > 0) defaults.tags = Array.from(new Set(tags));
+    return Object.keys(defaults).length > 0 ? defaults : null;
+  };
+
+  const buildBudget = (): ProjectBudget | null => {
+    const hours = parseFloat(editBudgetHours);
+    if (!editBudgetPeriod || !Number.isFinite(hours) || hours <= 0) return null;
+    return { period: editBudgetPeriod, hours };
+  };
+
+  // No rate means the project is billed like its parent, or not at all
+  const buildBilling = (): ProjectBilling | null => {
+    const hourlyRate = parseFloat(editHourlyRate);
+    if (!Number.isFinite(hourlyRate) || hourlyRate < 0) return null;
+    const tagRates: Record<string, number> = {};
+    editTagRates.split(',').forEach(pair => {
+      const [tag, rate] = pair.split(':').map(part => part.trim());
+      const value = parseFloat(rate);
+      if (tag && Number.isFinite(value) && value >= 0) tagRates[tag] = value;
+    });
+    const billing: ProjectBilling = { hourlyRate, currency: editCurrency.trim().toUpperCase() || 'USD' };
+    if (Object.keys(tagRates).length > 0) billing.tagRates = tagRates;
+    return billing;
+  };
+
+  const selectProject = (project: Project) => {
+    setActiveProjectId(project.id);
+    setOpenMenuId(null);
+    if (!activeTimer && project.id !== activeProjectId) setSelectedTaskId('');
+    // A running timer keeps what it was started with
+    if (!activeTimer && project.timerDefaults) {
+      if (project.timerDefaults.mode) setSelectedMode(project.timerDefaults.mode);
+      if (project.timerDefaults.tags) setCurrentTags(project.timerDefaults.tags);
+    }
+    // Sync to Firestore
+    if (user) {
+      db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: project.id });
+    }
+  };
+
+  const toggleProjectCollapsed = (projectId: string) => {
+    setCollapsedProjectIds(prev => {
+      const next = new Set(prev);
+      if (next.has(projectId)) next.delete(projectId); else next.add(projectId);
+      return next;
+    });
+  };
+
   const updateProject = () => {
     if (!editProjectName.trim() || !projectToEdit || !user) return;
     
     db.updateProject(user.uid, projectToEdit.id, {
       name: editProjectName.trim(),
-      color: editProjectColor
+      color: editProjectColor,
+      parentId: editProjectParentId || null,
+      timerDefaults: buildTimerDefaults(),
+      budget: buildBudget(),
+      billing: buildBilling()
     });
     
     setProjectToEdit(null);
     setEditProjectName('');
-    setEditProjectColor('blue');
+    setEditProjectColor('');
+  };
+
+  // Move the active project elsewhere before it is archived or deleted
+  const switchAwayFromProject = (project: Project) => {
+    if (activeProjectId !== project.id || !user) return;
+    const other = pickerProjects.find(p => p.id !== project.id);
+    if (other) {
+      setActiveProjectId(other.id);
+      // Sync to Firestore
+      db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: other.id });
+    }
+  };
+
+  const archiveProject = (project: Project) => {
+    if (!user) return;
+    if (pickerProjects.length <= 1) {
+      alert("You need at least one project.");
+      return;
+    }
+    switchAwayFromProject(project);
+    db.updateProject(user.uid, project.id, { archived: true });
+    setOpenMenuId(null);
+  };
+
+  const restoreProject = (project: Project) => {
+    if (!user) return;
+    db.updateProject(user.uid, project.id, { archived: false });
   };
 
   const initiateDeleteProject = (project: Project, e: React.MouseEvent) => {
     e.stopPropagation();
     e.nativeEvent.stopImmediatePropagation();
-    if (projects.length <= 1) {
+    if (!project.archived && pickerProjects.length <= 1) {
       alert("You need at least one project.");
       return;
     }
     setProjectToDelete(project);
+    setDeleteSessionsAction('reassign');
+    setReassignProjectId(pickerProjects.find(p => p.id !== project.id)?.id || '');
   };
 
+  const reassignTarget = projects.find(p => p.id === reassignProjectId && p.id !== projectToDelete?.id);
+
   const confirmDeleteProject = () => {
     if (!projectToDelete || !user) return;
+    if (deleteSessionsAction === 'reassign' && !reassignTarget) return;
 
     // Logic to switch active project if we delete the current one
-    if (activeProjectId === projectToDelete.id) {
-       const other = projects.find(p => p.id !== projectToDelete.id);
-       if (other) {
-         setActiveProjectId(other.id);
-         // Sync to Firestore
-         if (user) {
-           db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: other.id });
-         }
-       }
-    }
-
-    db.deleteProject(user.uid, projectToDelete.id);
+    switchAwayFromProject(projectToDelete);
+
+    db.deleteProject(
+      user.uid,
+      projectToDelete.id,
+      deleteSessionsAction === 'reassign' && reassignTarget
+        ? { action: 'reassign', project: reassignTarget }
+        : { action: 'delete' },
+      sessionEditor(user)
+    );
     setProjectToDelete(null);
   };
 
@@ -614,6 +1081,7 @@ const AuthenticatedApp: React.FC = () => {
              ShadFocus
           </button>
           <div className="flex gap-2 items-center">
+            <SyncStatusIndicator status={syncStatus} isDarkMode={isDarkMode} />
             <button 
               onClick={() => setView('timer')}
               className={`p-2 rounded-lg transition-colors ${view === 'timer' 
@@ -667,7 +1135,10 @@ const AuthenticatedApp: React.FC = () => {
               <div className="flex flex-col sm:flex-row gap-4 mb-6 items-start sm:items-center justify-between">
                 <div className="flex gap-3 w-full sm:w-auto">
                   <Button 
-                    onClick={() => setIsNewProjectModalOpen(true)}
+                    onClick={() => {
+                      setNewProjectColor(getUnusedPaletteColor(projects.map(p => p.color)));
+                      setIsNewProjectModalOpen(true);
+                    }}
                     variant="primary"
                     className={`!rounded-lg px-6 py-3 ${
                       isDarkMode 
@@ -689,30 +1160,31 @@ const AuthenticatedApp: React.FC = () => {
                 
                 <div className="text-right hidden sm:block">
                   <span className={`text-xs uppercase tracking-wider block ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>Currently Working On</span>
-                  <span className={`font-semibold ${isDarkMode ? 'text-gray-200' : PROJECT_COLORS[activeProject.color].text}`}>{activeProject.name}</span>
+                  <span className="font-semibold" style={{ color: colorTheme.text }}>{activeProject.name}</span>
                 </div>
               </div>
 
-               {/* Projects List - Grid Layout */}
-               <div className="grid grid-cols-3 gap-4 mb-6">
-                {projects.map(p => {
-                  const pTheme = PROJECT_COLORS[p.color];
+               {/* Projects List - Tree Layout */}
+               <div className="space-y-2 mb-6">
+                {pickerTree.map(({ project: p, depth, hasChildren }) => {
+                  const pTheme = getColorTheme(p.color, isDarkMode);
                   const isActiveProject = activeProjectId === p.id;
+                  const isCollapsed = collapsedProjectIds.has(p.id);
+                  const budget = budgetUsages[p.id];
+                  const isOverBudget = budget && budget.usedSeconds > budget.budgetSeconds;
                   return (
                     <div
                       key={p.id}
-                      onClick={() => {
-                        setActiveProjectId(p.id);
-                        setOpenMenuId(null);
-                        // Sync to Firestore
-                        if (user) {
-                          db.updateSettingsInDb(user.uid, { ...settings, activeProjectId: p.id });
-                        }
+                      style={{
+                        marginLeft: `${depth * 1.5}rem`,
+                        width: `calc(100% - ${depth * 1.5}rem)`,
+                        ...(isActiveProject && { backgroundColor: pTheme.primary, color: pTheme.onPrimary })
                       }}
+                      onClick={() => selectProject(p)}
                       className={`
                         group relative flex items-center justify-between gap-2 px-4 py-3 rounded-xl border transition-all cursor-pointer select-none w-full
                         ${isActiveProject 
-                          ? `${pTheme.primary} text-white border-transparent shadow-md` 
+                          ? 'border-transparent shadow-md' 
                           : isDarkMode 
                             ? 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600' 
                             : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
@@ -720,9 +1192,43 @@ const AuthenticatedApp: React.FC = () => {
                       `}
                     >
                       <div className="flex items-center gap-2 flex-1 min-w-0">
-                        <div className={`w-2 h-2 rounded-full flex-shrink-0 ${isActiveProject ? 'bg-white' : pTheme.primary}`}></div>
+                        {hasChildren && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleProjectCollapsed(p.id);
+                            }}
+                            className={`-ml-1 p-0.5 rounded flex-shrink-0 ${isActiveProject ? 'opacity-80 hover:bg-black/20' : isDarkMode ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-400 hover:bg-gray-100'}`}
+                            title={isCollapsed ? 'Show sub-projects' : 'Hide sub-projects'}
+                          >
+                            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                          </button>
+                        )}
+                        <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: isActiveProject ? 'currentColor' : pTheme.primary }}></div>
                         <span className="text-sm font-medium truncate">{p.name}</span>
                       </div>
+
+                      {budget && (
+                        <>
+                          <span
+                            className={`text-xs font-medium flex-shrink-0 ${isOverBudget && !isActiveProject ? 'text-red-500' : 'opacity-70'}`}
+                            title={`${formatBudgetHours(budget.usedSeconds)} of ${formatBudgetHours(budget.budgetSeconds)} ${BUDGET_PERIOD_LABELS[budget.project.budget!.period]}`}
+                          >
+                            {formatBudgetHours(budget.usedSeconds)} / {formatBudgetHours(budget.budgetSeconds)}
+                          </span>
+                          {/* Budget Progress */}
+                          <div className={`absolute left-4 right-4 bottom-1 h-1 rounded-full overflow-hidden ${isActiveProject ? 'bg-black/20' : isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                            <div
+                              className={`h-full rounded-full ${isOverBudget ? 'bg-red-500' : ''}`}
+                              style={{
+                                width: `${Math.min(100, (budget.usedSeconds / budget.budgetSeconds) * 100)}%`,
+                                ...(!isOverBudget && { backgroundColor: isActiveProject ? 'currentColor' : pTheme.primary })
+                              }}
+                            />
+                          </div>
+                        </>
+                      )}
                       
                       {/* 3-dot Menu */}
                       <div className="relative flex-shrink-0">
@@ -737,7 +1243,7 @@ const AuthenticatedApp: React.FC = () => {
                           className={`
                             p-1.5 rounded-full transition-all z-30 flex items-center justify-center
                             ${isActiveProject 
-                              ? 'text-white/70 hover:text-white hover:bg-black/20' 
+                              ? 'opacity-70 hover:opacity-100 hover:bg-black/20' 
                               : isDarkMode
                                 ? 'text-gray-500 hover:text-gray-300 hover:bg-gray-700 opacity-0 group-hover:opacity-100'
                                 : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100 opacity-0 group-hover:opacity-100'
@@ -752,6 +1258,43 @@ const AuthenticatedApp: React.FC = () => {
                   );
                 })}
                </div>
+
+               {/* Archived Projects */}
+               {archivedProjects.length > 0 && (
+                 <div className="mb-6">
+                   <button
+                     type="button"
+                     onClick={() => setShowArchivedProjects(!showArchivedProjects)}
+                     className={`flex items-center gap-1 text-xs font-medium uppercase tracking-wider ${isDarkMode ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'}`}
+                   >
+                     {showArchivedProjects ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                     Archived ({archivedProjects.length})
+                   </button>
+                   {showArchivedProjects && (
+                     <div className="mt-3 space-y-2">
+                       {archivedProjects.map(p => (
+                         <div
+                           key={p.id}
+                           className={`flex items-center justify-between gap-2 px-4 py-2 rounded-xl border ${isDarkMode ? 'bg-gray-800/50 border-gray-700 text-gray-400' : 'bg-gray-50 border-gray-200 text-gray-500'}`}
+                         >
+                           <div className="flex items-center gap-2 min-w-0">
+                             <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getColorTheme(p.color).primary }}></div>
+                             <span className="text-sm font-medium truncate">{p.name}</span>
+                           </div>
+                           <div className="flex items-center gap-1 flex-shrink-0">
+                             <Button variant="ghost" size="sm" onClick={() => restoreProject(p)} title="Restore">
+                               <ArchiveRestore size={14} />
+                             </Button>
+                             <Button variant="ghost" size="sm" onClick={(e) => initiateDeleteProject(p, e)} title="Delete">
+                               <Trash2 size={14} />
+                             </Button>
+                           </div>
+                         </div>
+                       ))}
+                     </div>
+                   )}
+                 </div>
+               )}
                
                {/* Dropdown Menu - Rendered as portal outside overflow container */}
                {openMenuId && menuButtonRefs.current[openMenuId] && createPortal(
@@ -764,7 +1307,7 @@ const AuthenticatedApp: React.FC = () => {
                    onClick={(e) => e.stopPropagation()}
                  >
                    {(() => {
-                     const project = projects.find(p => p.id === openMenuId);
+                     const project = pickerProjects.find(p => p.id === openMenuId);
                      if (!project) return null;
                      return (
                        <>
@@ -778,7 +1321,19 @@ const AuthenticatedApp: React.FC = () => {
                            <Edit size={14} />
                            Edit
                          </button>
-                         {projects.length > 1 && (
+                         {pickerProjects.length > 1 && (
+                           <button
+                             onClick={(e) => {
+                               e.stopPropagation();
+                               archiveProject(project);
+                             }}
+                             className={`w-full px-4 py-2 text-left text-sm flex items-center gap-2 ${isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                           >
+                             <Archive size={14} />
+                             Archive
+                           </button>
+                         )}
+                         {pickerProjects.length > 1 && (
                            <button
                              onClick={(e) => {
                                e.stopPropagation();
@@ -805,7 +1360,7 @@ const AuthenticatedApp: React.FC = () => {
                 onClick={() => {
                   // Stop timer if active and switch mode
                   if (user && activeTimer) {
-                    db.stopTimer(user.uid);
+                    runTimerChange('stop', db.stopTimer(user.uid, activeTimer.runId));
                   }
                   setSelectedMode('stopwatch');
                 }}
@@ -820,7 +1375,7 @@ const AuthenticatedApp: React.FC = () => {
                 onClick={() => {
                   // Stop timer if active and switch mode
                   if (user && activeTimer) {
-                    db.stopTimer(user.uid);
+                    runTimerChange('stop', db.stopTimer(user.uid, activeTimer.runId));
                   }
                   setSelectedMode('pomodoro');
                 }}
@@ -833,16 +1388,35 @@ const AuthenticatedApp: React.FC = () => {
               </button>
             </div>
 
+            {timerMode === 'pomodoro' && (
+              <div className={`text-xs font-semibold uppercase tracking-widest ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Round {timerRound} of {settings.longBreakInterval} · {TIMER_PHASE_LABELS[timerPhase]}
+              </div>
+            )}
+
+            {budgetWarning && (
+              <div className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm ${isDarkMode ? 'bg-amber-900/30 text-amber-300' : 'bg-amber-50 text-amber-800'}`}>
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span>
+                  {budgetWarning.usedSeconds + recordingSeconds > budgetWarning.budgetSeconds
+                    ? `${budgetWarning.project.name} is over its ${formatBudgetHours(budgetWarning.budgetSeconds)} budget ${BUDGET_PERIOD_LABELS[budgetWarning.project.budget!.period]}.`
+                    : `This session will take ${budgetWarning.project.name} over its ${formatBudgetHours(budgetWarning.budgetSeconds)} budget ${BUDGET_PERIOD_LABELS[budgetWarning.project.budget!.period]}.`}
+                </span>
+              </div>
+            )}
+
             {/* Main Timer Area */}
             <div className="flex flex-col md:flex-row items-center justify-center gap-4 md:gap-12 w-full">
               <div className="hidden md:block w-16"></div>
               <div className="relative z-0">
                 <TimerDisplay 
-                  seconds={timerMode === 'pomodoro' ? timeLeft : stopwatchSeconds}
-                  totalTime={settings.timerDuration * 60} 
+                  seconds={timerMode === 'pomodoro' ? (overtimeSeconds > 0 ? overtimeSeconds : timeLeft) : stopwatchSeconds}
+                  totalTime={activeTimer?.initialDuration || timerSettings.timerDuration * 60} 
                   colorTheme={colorTheme}
                   isActive={isActive}
                   mode={timerMode}
+                  phase={timerPhase}
+                  isOvertime={overtimeSeconds > 0}
                 />
               </div>
 
@@ -868,7 +1442,7 @@ const AuthenticatedApp: React.FC = () => {
                         ? 'bg-gray-800 border-gray-700' 
                         : 'bg-white border-gray-200'
                     }`}>
-                      <span className={`text-xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-800'}`}>{settings.timerDuration}</span>
+                      <span className={`text-xl font-bold ${isDarkMode ? 'text-gray-100' : 'text-gray-800'}`}>{timerSettings.timerDuration}</span>
                       <span className={`text-xs block ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>min</span>
                     </div>
 
@@ -906,10 +1480,10 @@ const AuthenticatedApp: React.FC = () => {
               <button 
                 onClick={toggleTimer}
                 className={`
-                  p-6 rounded-full text-white shadow-xl shadow-gray-200/50 
+                  p-6 rounded-full shadow-xl shadow-gray-200/50 
                   transform transition-all duration-200 active:scale-95 hover:scale-105
-                  ${colorTheme.primary}
                 `}
+                style={{ backgroundColor: colorTheme.primary, color: colorTheme.onPrimary }}
                 title={isActive ? "Pause" : "Start"}
               >
                 {isActive ? <Pause size={40} fill="currentColor" /> : <Play size={40} fill="currentColor" className="ml-1" />}
@@ -948,6 +1522,44 @@ const AuthenticatedApp: React.FC = () => {
               </div>
               
               <div className="space-y-4">
+                {/* Task */}
+                <div className="flex items-center gap-2">
+                  <ListTodo size={16} className={`flex-shrink-0 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`} />
+                  <select
+                    value={selectedTask?.id || ''}
+                    onChange={(e) => setSelectedTaskId(e.target.value)}
+                    disabled={!!activeTimer}
+                    title={activeTimer ? 'The task is set when the timer starts' : undefined}
+                    className={`flex-1 min-w-0 px-3 py-2 rounded-xl text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-70 ${
+                      isDarkMode 
+                        ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                        : 'bg-gray-50 border-gray-200 text-gray-700'
+                    }`}
+                  >
+                    <option value="">No task</option>
+                    {activeTimer && selectedTask && selectedTask.projectId !== activeProject?.id && (
+                      <option value={selectedTask.id}>{selectedTask.title}</option>
+                    )}
+                    {activeProjectTasks
+                      .filter(task => task.status !== 'done' || task.id === selectedTask?.id)
+                      .map(task => (
+                        <option key={task.id} value={task.id}>
+                          {task.title}
+                          {task.estimatedPomodoros ? ` (${task.pomodoros || 0}/${task.estimatedPomodoros})` : ''}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setIsTasksModalOpen(true)}
+                    className={`px-3 py-2 rounded-xl text-xs font-semibold uppercase tracking-wider transition-colors ${
+                      isDarkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    Tasks
+                  </button>
+                </div>
+
                 <div>
                   <input
                     type="text"
@@ -964,25 +1576,37 @@ const AuthenticatedApp: React.FC = () => {
                 <div className="flex flex-col gap-3">
                   {/* Quick Select Tags */}
                   <div>
-                    <label className={`block text-xs font-medium mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      Quick Tags
-                    </label>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className={`block text-xs font-medium ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        Quick Tags
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setIsTagManagerOpen(true)}
+                        className={`text-xs font-medium ${isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'}`}
+                      >
+                        Manage Tags
+                      </button>
+                    </div>
                     <div className="flex flex-wrap gap-2">
-                      {QUICK_TAGS.map(tag => {
+                      {/* Custom tags on this session show alongside the quick ones so they can be removed */}
+                      {[...quickTags, ...currentTags.filter(t => !quickTags.includes(t))].map(tag => {
                         const isSelected = currentTags.includes(tag);
                         return (
                           <button
                             key={tag}
                             type="button"
                             onClick={() => toggleQuickTag(tag)}
+                            style={isSelected ? { backgroundColor: colorTheme.secondary, color: colorTheme.accent, borderColor: colorTheme.ring } : undefined}
                             className={`inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
                               isSelected
-                                ? `${colorTheme.secondary} ${colorTheme.accent} border-2 ${colorTheme.ring.replace('stroke-', 'border-')}`
+                                ? 'border-2'
                                 : isDarkMode
                                   ? 'bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600'
                                   : 'bg-gray-100 text-gray-600 border border-gray-200 hover:bg-gray-200'
                             }`}
                           >
+                            {tagColors[tag] && <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: tagColors[tag] }}></span>}
                             #{tag}
                           </button>
                         );
@@ -1028,9 +1652,29 @@ const AuthenticatedApp: React.FC = () => {
         ) : (
           <Dashboard 
             sessions={sessions}
+            dailyRollups={dailyRollups}
+            budgetUsages={budgetUsages}
             projects={projects}
+            tasks={tasks}
+            tagColors={tagColors}
+            period={analyticsPeriod}
+            onPeriodChange={setAnalyticsPeriod}
+            compare={compareAnalytics}
+            onCompareChange={setCompareAnalytics}
+            loadedSince={sessionsLoadedSince}
+            isLoadingOlderSessions={isLoadingOlderSessions}
+            loadOlderSessions={loadOlderSessions}
+            addSession={handleAddSession}
             updateSession={handleUpdateSession} 
+            checkSessionRange={checkSessionRange}
+            fetchSessionsEndingBetween={fetchSessionsEndingBetween}
+            splitSession={handleSplitSession}
+            mergeSessions={handleMergeSessions}
             deleteSession={handleDeleteSession}
+            subscribeToSessionHistory={subscribeToSessionHistory}
+            trashedSessions={trashedSessions}
+            restoreSession={handleRestoreSession}
+            purgeSession={handlePurgeSession}
             darkMode={isDarkMode} 
           />
         )}
@@ -1074,22 +1718,28 @@ const AuthenticatedApp: React.FC = () => {
           </div>
           
           <div>
-            <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Project Color</label>
-            <div className="flex gap-3">
-              {(Object.keys(PROJECT_COLORS) as ProjectColor[]).map((c) => (
-                 <button
-                  key={c}
-                  onClick={() => setNewProjectColor(c)}
-                  className={`
-                    w-10 h-10 rounded-full transition-all flex items-center justify-center
-                    ${PROJECT_COLORS[c].primary} 
-                    ${newProjectColor === c ? `ring-4 ring-offset-2 ${isDarkMode ? 'ring-gray-600' : 'ring-gray-200'} scale-110` : 'hover:scale-105 opacity-80 hover:opacity-100'}
-                  `}
-                >
-                  {newProjectColor === c && <CheckCircle size={16} className="text-white" />}
-                </button>
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Parent</label>
+            <select
+              value={newProjectParentId}
+              onChange={(e) => setNewProjectParentId(e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                isDarkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              <option value="">None (top level)</option>
+              {newParentOptions.map(({ project, depth }) => (
+                <option key={project.id} value={project.id}>
+                  {'\u00A0\u00A0'.repeat(depth)}{project.name}
+                </option>
               ))}
-            </div>
+            </select>
+          </div>
+          
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Project Color</label>
+            <ProjectColorPicker value={newProjectColor} onChange={setNewProjectColor} darkMode={isDarkMode} />
           </div>
 
           <div className={`flex justify-end gap-3 pt-4 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
@@ -1104,7 +1754,7 @@ const AuthenticatedApp: React.FC = () => {
         onClose={() => {
           setProjectToEdit(null);
           setEditProjectName('');
-          setEditProjectColor('blue');
+          setEditProjectColor('');
         }}
         title="Edit Project"
         darkMode={isDarkMode}
@@ -1126,22 +1776,213 @@ const AuthenticatedApp: React.FC = () => {
             />
           </div>
           
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Parent</label>
+            <select
+              value={editProjectParentId}
+              onChange={(e) => setEditProjectParentId(e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                isDarkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              <option value="">None (top level)</option>
+              {editParentOptions.map(({ project, depth }) => (
+                <option key={project.id} value={project.id}>
+                  {'\u00A0\u00A0'.repeat(depth)}{project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          
           <div>
             <label className={`block text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Project Color</label>
-            <div className="flex gap-3">
-              {(Object.keys(PROJECT_COLORS) as ProjectColor[]).map((c) => (
-                 <button
-                  key={c}
-                  onClick={() => setEditProjectColor(c)}
-                  className={`
-                    w-10 h-10 rounded-full transition-all flex items-center justify-center
-                    ${PROJECT_COLORS[c].primary} 
-                    ${editProjectColor === c ? `ring-4 ring-offset-2 ${isDarkMode ? 'ring-gray-600' : 'ring-gray-200'} scale-110` : 'hover:scale-105 opacity-80 hover:opacity-100'}
-                  `}
+            <ProjectColorPicker value={editProjectColor} onChange={setEditProjectColor} darkMode={isDarkMode} />
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Timer Defaults</label>
+            <p className={`text-xs mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Applied when this project is selected. Leave a field blank to use your global settings.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Mode</label>
+                <select
+                  value={editTimerMode}
+                  onChange={(e) => setEditTimerMode(e.target.value as '' | 'pomodoro' | 'stopwatch')}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
                 >
-                  {editProjectColor === c && <CheckCircle size={16} className="text-white" />}
-                </button>
-              ))}
+                  <option value="">Global</option>
+                  <option value="pomodoro">Pomodoro</option>
+                  <option value="stopwatch">Stopwatch</option>
+                </select>
+              </div>
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Focus (min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="180"
+                  value={editTimerDuration}
+                  onChange={(e) => setEditTimerDuration(e.target.value)}
+                  placeholder={String(settings.timerDuration)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Short Break (min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="180"
+                  value={editShortBreakDuration}
+                  onChange={(e) => setEditShortBreakDuration(e.target.value)}
+                  placeholder={String(settings.shortBreakDuration)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Long Break (min)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="180"
+                  value={editLongBreakDuration}
+                  onChange={(e) => setEditLongBreakDuration(e.target.value)}
+                  placeholder={String(settings.longBreakDuration)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Tags</label>
+                <input
+                  type="text"
+                  value={editTimerTags}
+                  onChange={(e) => setEditTimerTags(e.target.value)}
+                  placeholder="e.g. deep-work, writing"
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Time Budget</label>
+            <p className={`text-xs mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Time logged on sub-projects counts towards it.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Period</label>
+                <select
+                  value={editBudgetPeriod}
+                  onChange={(e) => setEditBudgetPeriod(e.target.value as '' | BudgetPeriod)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                >
+                  <option value="">No budget</option>
+                  <option value="week">Per week</option>
+                  <option value="month">Per month</option>
+                  <option value="total">Total</option>
+                </select>
+              </div>
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Hours</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={editBudgetHours}
+                  onChange={(e) => setEditBudgetHours(e.target.value)}
+                  disabled={!editBudgetPeriod}
+                  placeholder="e.g. 10"
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50 ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Billing</label>
+            <p className={`text-xs mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Leave the rate blank to bill sub-projects at their parent's rate, or not at all.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Hourly Rate</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editHourlyRate}
+                  onChange={(e) => setEditHourlyRate(e.target.value)}
+                  placeholder="e.g. 100"
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Currency</label>
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={editCurrency}
+                  onChange={(e) => setEditCurrency(e.target.value.toUpperCase())}
+                  placeholder="USD"
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className={`block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>Rates by Tag</label>
+                <input
+                  type="text"
+                  value={editTagRates}
+                  onChange={(e) => setEditTagRates(e.target.value)}
+                  disabled={!editHourlyRate}
+                  placeholder="e.g. design: 120, support: 80"
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50 ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                      : 'bg-white border-gray-300 text-gray-700'
+                  }`}
+                />
+              </div>
             </div>
           </div>
 
@@ -1149,13 +1990,267 @@ const AuthenticatedApp: React.FC = () => {
              <Button variant="secondary" onClick={() => {
                setProjectToEdit(null);
                setEditProjectName('');
-               setEditProjectColor('blue');
+               setEditProjectColor('');
              }}>Cancel</Button>
              <Button onClick={updateProject} disabled={!editProjectName.trim()}>Save Changes</Button>
           </div>
         </div>
       </Modal>
 
+      <Modal
+        isOpen={isTasksModalOpen}
+        onClose={() => setIsTasksModalOpen(false)}
+        title={`Tasks · ${activeProject?.name || ''}`}
+        darkMode={isDarkMode}
+      >
+        <div className="space-y-4">
+          {activeProjectTasks.length === 0 ? (
+            <p className={`py-4 text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              No tasks yet. Add one below to log sessions against it.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {activeProjectTasks.map(task => {
+                const pomodoros = task.pomodoros || 0;
+                return (
+                  <div
+                    key={task.id}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-xl border ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                  >
+                    <span className={`flex-1 min-w-0 truncate text-sm font-medium ${
+                      task.status === 'done' ? 'line-through opacity-60' : ''
+                    } ${isDarkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+                      {task.title}
+                    </span>
+                    <span
+                      className={`text-xs flex-shrink-0 ${task.estimatedPomodoros && pomodoros > task.estimatedPomodoros ? 'text-red-500' : isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                      title="Pomodoros done / estimated"
+                    >
+                      {pomodoros}/
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={task.estimatedPomodoros ?? ''}
+                      onChange={(e) => {
+                        const estimate = parseInt(e.target.value, 10);
+                        updateTask(task, { estimatedPomodoros: estimate > 0 ? estimate : null });
+                      }}
+                      placeholder="?"
+                      title="Estimated pomodoros"
+                      className={`w-14 border rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                      isDarkMode 
+                        ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                        : 'bg-white border-gray-300 text-gray-700'
+                    }`}
+                    />
+                    <select
+                      value={task.status}
+                      onChange={(e) => updateTask(task, { status: e.target.value as TaskStatus })}
+                      className={`border rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                      isDarkMode 
+                        ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                        : 'bg-white border-gray-300 text-gray-700'
+                    }`}
+                    >
+                      {(Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).map(status => (
+                        <option key={status} value={status}>{TASK_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => deleteTask(task)}
+                      className={`p-1.5 rounded-full transition-colors ${isDarkMode ? 'text-gray-500 hover:text-red-400 hover:bg-gray-700' : 'text-gray-400 hover:text-red-500 hover:bg-gray-100'}`}
+                      title="Delete task"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className={`flex items-center gap-2 pt-4 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <input
+              type="text"
+              value={newTaskTitle}
+              onChange={(e) => setNewTaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createTask()}
+              placeholder="New task..."
+              className={`flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                isDarkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                  : 'border-gray-300'
+              }`}
+            />
+            <input
+              type="number"
+              min="1"
+              value={newTaskEstimate}
+              onChange={(e) => setNewTaskEstimate(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createTask()}
+              placeholder="Est."
+              title="Estimated pomodoros"
+              className={`w-20 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                isDarkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                  : 'border-gray-300'
+              }`}
+            />
+            <Button size="sm" onClick={createTask} disabled={!newTaskTitle.trim()}>
+              <Plus size={16} />
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={isTagManagerOpen}
+        onClose={() => {
+          setIsTagManagerOpen(false);
+          setRenamingTag(null);
+        }}
+        title="Tags"
+        darkMode={isDarkMode}
+      >
+        <div className="space-y-4">
+          <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Starred tags show up as quick tags next to the timer. Renaming, merging and removing a tag changes every session that has it.
+          </p>
+          <div className="space-y-2">
+            {knownTags.map(tag => {
+              const definition = tagDefinitions.find(t => t.name === tag);
+              return (
+                <div
+                  key={tag}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-xl border ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                >
+                  <label
+                    className={`relative w-5 h-5 rounded-full flex-shrink-0 cursor-pointer ${tagColors[tag] ? '' : `border-2 border-dashed ${isDarkMode ? 'border-gray-500' : 'border-gray-300'}`}`}
+                    style={tagColors[tag] ? { backgroundColor: tagColors[tag] } : undefined}
+                    title="Tag color"
+                  >
+                    <input
+                      type="color"
+                      value={tagColors[tag] || '#9ca3af'}
+                      onChange={(e) => saveTagDefinition(tag, { color: e.target.value })}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                    />
+                  </label>
+                  {renamingTag === tag ? (
+                    <input
+                      type="text"
+                      value={renameTagTo}
+                      onChange={(e) => setRenameTagTo(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') confirmRenameTag();
+                        if (e.key === 'Escape') setRenamingTag(null);
+                      }}
+                      onBlur={() => setRenamingTag(null)}
+                      list="known-tags"
+                      autoFocus
+                      className={`flex-1 min-w-0 border rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                        isDarkMode 
+                          ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                          : 'border-gray-300'
+                      }`}
+                    />
+                  ) : (
+                    <span className={`flex-1 min-w-0 truncate text-sm font-medium ${isDarkMode ? 'text-gray-100' : 'text-gray-800'}`}>#{tag}</span>
+                  )}
+                  {tagColors[tag] && (
+                    <button
+                      type="button"
+                      onClick={() => saveTagDefinition(tag, { color: null })}
+                      className={`p-1.5 rounded-full transition-colors ${isDarkMode ? 'text-gray-500 hover:text-gray-300 hover:bg-gray-700' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+                      title="Clear color"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => saveTagDefinition(tag, { quick: !definition?.quick })}
+                    className={`p-1.5 rounded-full transition-colors ${
+                      definition?.quick
+                        ? 'text-amber-500 hover:bg-amber-500/10'
+                        : isDarkMode ? 'text-gray-500 hover:text-gray-300 hover:bg-gray-700' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                    }`}
+                    title={definition?.quick ? 'Remove from quick tags' : 'Add to quick tags'}
+                  >
+                    <Star size={14} fill={definition?.quick ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => {
+                      if (renamingTag === tag) {
+                        confirmRenameTag();
+                      } else {
+                        setRenamingTag(tag);
+                        setRenameTagTo(tag);
+                      }
+                    }}
+                    className={`p-1.5 rounded-full transition-colors ${isDarkMode ? 'text-gray-500 hover:text-gray-300 hover:bg-gray-700' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+                    title="Rename or merge into another tag"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteTagEverywhere(tag)}
+                    className={`p-1.5 rounded-full transition-colors ${isDarkMode ? 'text-gray-500 hover:text-red-400 hover:bg-gray-700' : 'text-gray-400 hover:text-red-500 hover:bg-gray-100'}`}
+                    title="Remove from every session"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <datalist id="known-tags">
+            {knownTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+
+          <div className={`flex items-center gap-2 pt-4 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <input
+              type="text"
+              value={newRegistryTag}
+              onChange={(e) => setNewRegistryTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && registerTag()}
+              placeholder="New tag..."
+              className={`flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                isDarkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                  : 'border-gray-300'
+              }`}
+            />
+            <Button size="sm" onClick={registerTag} disabled={!newRegistryTag.trim()}>
+              <Plus size={16} />
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {recentlyDeletedSession && (
+        <Toast
+          message={`Moved "${recentlyDeletedSession.projectName}" session to the trash`}
+          actionLabel="Undo"
+          onAction={undoDeleteSession}
+          onDismiss={dismissUndoToast}
+          darkMode={isDarkMode}
+        />
+      )}
+
+      {timerError && !recentlyDeletedSession && (
+        <Toast
+          message={timerError}
+          onDismiss={dismissTimerError}
+          darkMode={isDarkMode}
+        />
+      )}
+
       <Modal
         isOpen={!!projectToDelete}
         onClose={() => setProjectToDelete(null)}
@@ -1166,12 +2261,61 @@ const AuthenticatedApp: React.FC = () => {
           <p className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>
             Are you sure you want to delete <strong>{projectToDelete?.name}</strong>?
           </p>
+          {projectToDelete && projects.some(p => p.parentId === projectToDelete.id) && (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Its sub-projects will move up a level.
+            </p>
+          )}
           <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-            This will remove it from your active projects list. Your past sessions for this project will remain in your history.
+            To keep its history without the project, archive it instead. What should happen to its past sessions?
           </p>
+          <div className={`space-y-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="delete-sessions-action"
+                checked={deleteSessionsAction === 'reassign'}
+                onChange={() => setDeleteSessionsAction('reassign')}
+              />
+              <span className="flex-shrink-0">Move them to</span>
+              <select
+                value={reassignProjectId}
+                onChange={(e) => {
+                  setReassignProjectId(e.target.value);
+                  setDeleteSessionsAction('reassign');
+                }}
+                className={`flex-1 min-w-0 border rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                  isDarkMode 
+                    ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                    : 'bg-white border-gray-300 text-gray-700'
+                }`}
+              >
+                {projects.filter(p => p.id !== projectToDelete?.id).map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}{p.archived ? ' (archived)' : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="delete-sessions-action"
+                checked={deleteSessionsAction === 'delete'}
+                onChange={() => setDeleteSessionsAction('delete')}
+              />
+              <span>Delete them too</span>
+            </label>
+          </div>
           <div className="flex justify-end gap-3 pt-4">
              <Button variant="secondary" onClick={() => setProjectToDelete(null)}>No, Keep It</Button>
-             <Button variant="danger" onClick={confirmDeleteProject}>Yes, Delete</Button>
+             <Button
+               variant="danger"
+               onClick={confirmDeleteProject}
+               disabled={deleteSessionsAction === 'reassign' && !reassignTarget}
+             >
+               Yes, Delete
+             </Button>
           </div>
         </div>
       </Modal>
@@ -1,67 +1,216 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  PieChart, Pie, Cell, Legend
+  PieChart, Pie, Cell, Legend, LineChart, Line, ComposedChart
 } from 'recharts';
-import { Calendar, Tag, Clock, TrendingUp, Sparkles, Filter, Pencil, X, Plus, CalendarDays } from 'lucide-react';
-import { Session, AnalyticsPeriod, ProjectColor, Project } from '../types';
+import { Calendar, Tag, Clock, TrendingUp, Sparkles, Filter, Pencil, X, Plus, CalendarDays, Scissors, Merge, Trash2, RotateCcw, History, ChevronDown, ChevronUp, DollarSign, FileText, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { Session, AnalyticsPeriod, AnalyticsPreset, ProjectColor, Project, Task, DailyRollup, SessionChange, TrackedSessionField, Unsubscribe } from '../types';
 import { Button } from './ui/Button';
 import { Modal } from './ui/Modal';
-import { PROJECT_COLORS } from '../constants';
+import { SESSION_DURATION_BUCKETS, TRASH_RETENTION_DAYS, TAG_CHART_LIMIT, TAG_TREND_WEEKS } from '../constants';
+import {
+  toDateTimeLocalValue, fromDateTimeLocalValue, validateSessionRange,
+  splitSessionAt, getAdjacentSessions, mergeSessionPair, withCurrentProject, sessionBeforeChange,
+  getPeriodRange, getPreviousPeriodRange, isInPeriod, isCustomPeriod, PeriodRange
+} from '../lib/sessions';
+import { toDateKey, fromDateKey, buildDailyRollups, sumRollups, withCurrentProjects, getRollupsInRange, emptyRollup, isStartOfDay } from '../lib/rollups';
+import { getProjectPath, groupRollupProjects } from '../lib/projects';
+import { resolveProjectColor } from '../lib/colors';
+import { BUDGET_PERIOD_LABELS, BudgetUsage } from '../lib/budgets';
+import { getTaskStats, TASK_STATUS_LABELS, TaskStats } from '../lib/tasks';
+import { getTagTotals, getTagCooccurrence, getWeeklyTagTotals, getTagChartColors, TagTotal, TagPair, WeeklyTagTotals } from '../lib/tags';
+import { isBillable, summarizeEarnings, formatMoneyTotals, buildInvoice, renderInvoiceHtml, EarningsSummary } from '../lib/billing';
 
 interface DashboardProps {
   sessions: Session[];
+  dailyRollups: DailyRollup[]; // Oldest first; covers the selected period (and the previous one when comparing) and the heatmap's range
+  budgetUsages: Record<string, BudgetUsage>; // Keyed by project id; only projects with a budget
   projects: Project[];
+  tasks: Task[];
+  tagColors: Record<string, string>; // Registered tag colors by name
+  period: AnalyticsPeriod;
+  onPeriodChange: (period: AnalyticsPeriod) => void;
+  compare: boolean; // Show the previous equivalent period alongside
+  onCompareChange: (compare: boolean) => void;
+  loadedSince: number | null; // Sessions that ended before this are not loaded yet; null when all are
+  isLoadingOlderSessions: boolean;
+  loadOlderSessions: () => void;
+  addSession: (session: Session) => void;
   updateSession: (updatedSession: Session) => void;
+  // Validates a range against every stored session, not just the loaded ones; null when it can be saved
+  checkSessionRange: (startTime: number, endTime: number, excludeIds?: string[]) => Promise<string | null>;
+  // One-off read of the stored sessions that ended in [from, to), for ranges reaching past loadedSince
+  fetchSessionsEndingBetween: (from: number, to: number) => Promise<Session[]>;
+  splitSession: (parts: [Session, Session]) => void;
+  mergeSessions: (merged: Session, removedIds: string[]) => void;
   deleteSession: (sessionId: string) => void;
+  subscribeToSessionHistory: (sessionId: string, callback: (history: SessionChange[]) => void) => Unsubscribe;
+  trashedSessions: Session[]; // Most recently deleted first
+  restoreSession: (session: Session) => void;
+  purgeSession: (sessionId: string) => void;
   darkMode?: boolean;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, updateSession, deleteSession, darkMode = false }) => {
-  const [period, setPeriod] = useState<AnalyticsPeriod>('all');
+const PERIOD_PRESETS: AnalyticsPreset[] = [
+  'day', 'last7days', 'last30days', 'thisWeek', 'lastWeek', 'thisMonth', 'lastMonth', 'thisQuarter', 'yearToDate', 'all'
+];
+
+const HISTORY_FIELD_LABELS: Record<TrackedSessionField, string> = {
+  projectId: 'Project',
+  startTime: 'Start',
+  endTime: 'End',
+  durationSeconds: 'Duration',
+  notes: 'Notes',
+  tags: 'Tags',
+  billable: 'Billable'
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ 
+  sessions: storedSessions, dailyRollups: storedRollups, budgetUsages, projects, tasks, tagColors, period, onPeriodChange, compare, onCompareChange, loadedSince, isLoadingOlderSessions, loadOlderSessions,
+  addSession, updateSession, checkSessionRange, fetchSessionsEndingBetween, splitSession, mergeSessions, deleteSession, subscribeToSessionHistory, trashedSessions, restoreSession, purgeSession, darkMode = false 
+}) => {
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
   const [filterTag, setFilterTag] = useState<string>('');
+  const [filterProjectId, setFilterProjectId] = useState<string>('');
   const [showToday, setShowToday] = useState(false); // Toggle between today and last work day
+  const [projectDrillId, setProjectDrillId] = useState<string | null>(null); // Charts show this project's children
+  const [customFrom, setCustomFrom] = useState(isCustomPeriod(period) ? period.from : ''); // YYYY-MM-DD
+  const [customTo, setCustomTo] = useState(isCustomPeriod(period) ? period.to : ''); // YYYY-MM-DD, inclusive
   
   // Edit Session State
   const [editingSession, setEditingSession] = useState<Session | null>(null);
   const [editNotes, setEditNotes] = useState('');
   const [editTags, setEditTags] = useState<string[]>([]);
   const [newEditTag, setNewEditTag] = useState('');
-  const [editDurationMinutes, setEditDurationMinutes] = useState<number>(0);
+  const [editStart, setEditStart] = useState('');
+  const [editEnd, setEditEnd] = useState('');
   const [editProjectId, setEditProjectId] = useState<string>('');
+  const [editBillable, setEditBillable] = useState(true);
 
-  const filteredSessions = useMemo(() => {
-    let filtered = [...sessions];
-    
-    // Time filter
-    if (period !== 'all') {
-      const now = new Date();
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
-      
-      if (period === 'day') {
-        filtered = filtered.filter(s => s.endTime >= todayStart);
-      } else if (period === 'last7days') {
-        const last7DaysStart = Date.now() - (7 * 24 * 60 * 60 * 1000);
-        filtered = filtered.filter(s => s.endTime >= last7DaysStart);
-      } else if (period === 'last30days') {
-        const last30DaysStart = Date.now() - (30 * 24 * 60 * 60 * 1000);
-        filtered = filtered.filter(s => s.endTime >= last30DaysStart);
-      }
+  // Split State (part of the edit modal)
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [splitTime, setSplitTime] = useState('');
+  const [splitSecondProjectId, setSplitSecondProjectId] = useState<string>('');
+
+  // History State (part of the edit modal)
+  const [sessionHistory, setSessionHistory] = useState<SessionChange[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Manual Entry State
+  const [isManualEntryOpen, setIsManualEntryOpen] = useState(false);
+  const [manualProjectId, setManualProjectId] = useState<string>('');
+  const [manualStart, setManualStart] = useState('');
+  const [manualEnd, setManualEnd] = useState('');
+  const [manualNotes, setManualNotes] = useState('');
+  const [manualTags, setManualTags] = useState<string[]>([]);
+  const [newManualTag, setNewManualTag] = useState('');
+  const [manualBillable, setManualBillable] = useState(true);
+
+  // Result of the full overlap check run on save (edit and manual entry)
+  const [storedRangeError, setStoredRangeError] = useState<string | null>(null);
+  const [isCheckingRange, setIsCheckingRange] = useState(false);
+
+  // Trash State
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+
+  // Invoice State
+  const [isInvoiceOpen, setIsInvoiceOpen] = useState(false);
+  const [invoiceClientId, setInvoiceClientId] = useState<string>('');
+  const [invoiceFrom, setInvoiceFrom] = useState(''); // YYYY-MM-DD
+  const [invoiceTo, setInvoiceTo] = useState(''); // YYYY-MM-DD, inclusive
+  const [isPreparingInvoice, setIsPreparingInvoice] = useState(false);
+
+  // Show every session under its project's current name and color, so a rename or recolor
+  // does not split one project into two series
+  const projectsById = useMemo(() => {
+    const byId: Record<string, Project> = {};
+    projects.forEach(p => { byId[p.id] = p; });
+    return byId;
+  }, [projects]);
+
+  const sessions: Session[] = useMemo(
+    () => storedSessions.map(s => withCurrentProject(s, projectsById)),
+    [storedSessions, projectsById]
+  );
+
+  const dailyRollups: DailyRollup[] = useMemo(
+    () => storedRollups.map(r => withCurrentProjects(r, projectsById)),
+    [storedRollups, projectsById]
+  );
+
+  const matchesTagFilter = (session: Session) =>
+    session.tags.some(t => t.toLowerCase().includes(filterTag.toLowerCase()));
+
+  const periodRange: PeriodRange = useMemo(() => getPeriodRange(period, Date.now()), [period]);
+  // null unless comparing, and for all time, which has nothing before it
+  const previousRange: PeriodRange | null = useMemo(
+    () => compare ? getPreviousPeriodRange(period, Date.now()) : null,
+    [period, compare]
+  );
+
+  // Sessions within a period that match the project and tag filters, newest first
+  const filterSessions = (range: PeriodRange) => {
+    let filtered = sessions.filter(s => isInPeriod(s.endTime, range));
+
+    // Project filter
+    if (filterProjectId) {
+      filtered = filtered.filter(s => s.projectId === filterProjectId);
     }
 
     // Tag filter
     if (filterTag) {
-      filtered = filtered.filter(s => s.tags.some(t => t.toLowerCase().includes(filterTag.toLowerCase())));
+      filtered = filtered.filter(matchesTagFilter);
     }
 
-    return filtered.sort((a, b) => b.endTime - a.endTime); // Newest first
-  }, [sessions, period, filterTag]);
+    return filtered.sort((a, b) => b.endTime - a.endTime);
+  };
+
+  const filteredSessions: Session[] = useMemo(
+    () => filterSessions(periodRange),
+    [sessions, periodRange, filterProjectId, filterTag]
+  );
+  const previousSessions: Session[] = useMemo(
+    () => previousRange ? filterSessions(previousRange) : [],
+    [sessions, previousRange, filterProjectId, filterTag]
+  );
+
+  // Older sessions the figures need still have to be paged in. The selected period is always loaded
+  // (all time aside), and so is the previous one's last day; the rest of the previous period is only
+  // read from sessions while a filter is set.
+  const hasUnloadedSessions = useMemo(() => {
+    if (loadedSince === null) return false;
+    if (periodRange.start === undefined) return true;
+    return !!previousRange && !!(filterProjectId || filterTag) && previousRange.start! < loadedSince;
+  }, [loadedSince, periodRange, previousRange, filterProjectId, filterTag]);
 
-  const totalTime = useMemo(() => {
-    return filteredSessions.reduce((acc, curr) => acc + curr.durationSeconds, 0);
-  }, [filteredSessions]);
+  // Charts and totals come from daily rollups. Project and tag filters cut across days, so while
+  // one is set they are rebuilt from the matching sessions instead.
+  const periodRollups: DailyRollup[] = useMemo(() => {
+    if (filterProjectId || filterTag) return buildDailyRollups(filteredSessions);
+    return getRollupsInRange(dailyRollups, periodRange.start, periodRange.end);
+  }, [dailyRollups, filteredSessions, filterProjectId, filterTag, periodRange]);
+
+  // A period still running is compared up to the same time of day, so the previous one ends mid-day:
+  // its whole days come from rollups and the last one from that day's sessions, which are loaded
+  const previousRollups: DailyRollup[] = useMemo(() => {
+    if (!previousRange) return [];
+    if (filterProjectId || filterTag) return buildDailyRollups(previousSessions);
+    if (isStartOfDay(previousRange.end!)) return getRollupsInRange(dailyRollups, previousRange.start, previousRange.end);
+    const lastDayStart = fromDateKey(toDateKey(previousRange.end!)).getTime();
+    return [
+      ...getRollupsInRange(dailyRollups, previousRange.start, lastDayStart),
+      ...buildDailyRollups(previousSessions.filter(s => s.endTime >= lastDayStart))
+    ];
+  }, [dailyRollups, previousSessions, filterProjectId, filterTag, previousRange]);
+
+  const periodTotals: DailyRollup = useMemo(() => sumRollups(periodRollups), [periodRollups]);
+  const previousTotals: DailyRollup | null = useMemo(
+    () => previousRange ? sumRollups(previousRollups) : null,
+    [previousRange, previousRollups]
+  );
+
+  const totalTime = periodTotals.totalSeconds;
 
   // Yesterday's sessions and summary
   const yesterdaySessions = useMemo(() => {
@@ -225,101 +374,109 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
   const displayDateInfo = showToday ? getTodayInfo : getLastWorkDay;
   const displayTitle = showToday ? "Today's Activity Summary" : "Last Work Day Summary";
 
+  // The project charts show one level of the project tree at a time: top-level projects, or the
+  // children of the project drilled into, with everything below each one rolled up into it
+  const drillId = projectDrillId && projectsById[projectDrillId] ? projectDrillId : null;
+  const drillPath = useMemo(
+    () => drillId ? getProjectPath(drillId, projectsById).reverse() : [],
+    [drillId, projectsById]
+  );
+  const hasProjectHierarchy = projects.some(p => p.parentId);
+
+  const chartRollups: DailyRollup[] = useMemo(
+    () => periodRollups.map(r => ({ ...r, projects: groupRollupProjects(r.projects, drillId, projectsById) })),
+    [periodRollups, drillId, projectsById]
+  );
+  const chartTotals: DailyRollup = useMemo(
+    () => ({ ...periodTotals, projects: groupRollupProjects(periodTotals.projects, drillId, projectsById) }),
+    [periodTotals, drillId, projectsById]
+  );
+
+  // Chart series are keyed by name; map them back to projects for drilling down
+  const chartProjectIds = useMemo(() => {
+    const ids: Record<string, string> = {};
+    Object.entries(chartTotals.projects).forEach(([id, p]) => {
+      if (!ids[p.name]) ids[p.name] = id;
+    });
+    return ids;
+  }, [chartTotals]);
+
+  const drillInto = (projectId: string | undefined) => {
+    if (projectId && projectId !== drillId && projects.some(p => p.parentId === projectId)) {
+      setProjectDrillId(projectId);
+    }
+  };
+
   // Stack bar chart data per project per day
   const projectKeys = useMemo(() => {
     const names = new Set<string>();
-    filteredSessions.forEach(s => names.add(s.projectName || 'Unknown'));
+    Object.values(chartTotals.projects).forEach(p => {
+      if (p.seconds > 0) names.add(p.name || 'Unknown');
+    });
     return Array.from(names);
-  }, [filteredSessions]);
+  }, [chartTotals]);
 
-  const chartData = useMemo(() => {
-    const grouped: Record<string, Record<string, number>> = {};
-    filteredSessions.forEach(s => {
-      const date = new Date(s.endTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-      if (!grouped[date]) grouped[date] = {};
-      const key = s.projectName || 'Unknown';
-      grouped[date][key] = (grouped[date][key] || 0) + (s.durationSeconds / 60);
-    });
+  // When comparing, the timeline shows every day of the period, each next to the total of the
+  // same day of the previous period (the first day with the first day, and so on)
+  const comparisonDays: { dateKey: string; previousSeconds: number }[] | null = useMemo(() => {
+    if (!previousRange) return null;
+    const previousByDate = new Map(previousRollups.map(r => [r.date, r]));
+    const day = fromDateKey(toDateKey(periodRange.start!));
+    const previousDay = fromDateKey(toDateKey(previousRange.start!));
+    const lastKey = toDateKey((periodRange.end ?? Date.now() + 1) - 1);
+    const days: { dateKey: string; previousSeconds: number }[] = [];
+    for (let dateKey = toDateKey(day.getTime()); dateKey <= lastKey; dateKey = toDateKey(day.getTime())) {
+      days.push({ dateKey, previousSeconds: previousByDate.get(toDateKey(previousDay.getTime()))?.totalSeconds || 0 });
+      day.setDate(day.getDate() + 1);
+      previousDay.setDate(previousDay.getDate() + 1);
+    }
+    return days;
+  }, [periodRange, previousRange, previousRollups]);
 
-    return Object.entries(grouped).map(([date, projects]) => {
-      const entry: Record<string, any> = { date };
-      Object.entries(projects).forEach(([name, mins]) => {
-        entry[name] = Math.round(mins); // round minutes for display
+  const chartData = useMemo(() => {
+    const toEntry = (r: DailyRollup) => {
+      const entry: Record<string, any> = {
+        date: fromDateKey(r.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      };
+      Object.values(r.projects).forEach(p => {
+        const key = p.name || 'Unknown';
+        entry[key] = (entry[key] || 0) + p.seconds / 60;
+      });
+      projectKeys.forEach(key => {
+        if (entry[key] !== undefined) entry[key] = Math.round(entry[key]); // round minutes for display
       });
       return entry;
-    }).reverse(); // Oldest first for chart
-  }, [filteredSessions]);
-
-  // Map Tailwind color classes to hex values
-  const getColorHex = (color: ProjectColor | undefined): string => {
-    const colorMap: Record<ProjectColor, string> = {
-      red: '#ef4444',      // red-500
-      green: '#10b981',    // emerald-500
-      purple: '#9333ea',   // purple-600
-      blue: '#3b82f6',     // blue-500
-      yellow: '#eab308'    // yellow-400
     };
-    return colorMap[color || 'blue'];
-  };
-
-  // Lighten a hex color by a percentage
-  const lightenColor = (hex: string, percent: number): string => {
-    const num = parseInt(hex.replace('#', ''), 16);
-    const r = Math.min(255, (num >> 16) + Math.floor((255 - (num >> 16)) * percent / 100));
-    const g = Math.min(255, ((num >> 8) & 0x00FF) + Math.floor((255 - ((num >> 8) & 0x00FF)) * percent / 100));
-    const b = Math.min(255, (num & 0x0000FF) + Math.floor((255 - (num & 0x0000FF)) * percent / 100));
-    return '#' + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
-  };
+    if (!comparisonDays) {
+      return chartRollups.filter(r => r.totalSeconds > 0).map(toEntry); // Rollups are already oldest first
+    }
+    const byDate = new Map(chartRollups.map(r => [r.date, r]));
+    return comparisonDays.map(({ dateKey, previousSeconds }) => ({
+      ...toEntry(byDate.get(dateKey) || emptyRollup(dateKey)),
+      __previous: Math.round(previousSeconds / 60)
+    }));
+  }, [chartRollups, projectKeys, comparisonDays]);
 
-  // Get project color mapping with handling for duplicates
+  // Chart colors by project name; each project has its own color, so no two share one by default
   const getProjectColorMap = useMemo(() => {
-    const projectColorMap: Record<string, ProjectColor> = {};
-    
-    // First pass: collect unique project names and their colors
-    filteredSessions.forEach(s => {
-      const projectName = s.projectName || 'Unknown';
-      if (!projectColorMap[projectName] && s.color) {
-        projectColorMap[projectName] = s.color;
+    const colorMap: Record<string, string> = {};
+    Object.values(chartTotals.projects).forEach(p => {
+      const projectName = p.name || 'Unknown';
+      if (!colorMap[projectName]) {
+        colorMap[projectName] = resolveProjectColor(p.color);
       }
     });
-    
-    // Group projects by color
-    const projectsByColor: Record<string, string[]> = {};
-    Object.entries(projectColorMap).forEach(([projectName, color]) => {
-      const colorKey = color;
-      if (!projectsByColor[colorKey]) {
-        projectsByColor[colorKey] = [];
-      }
-      projectsByColor[colorKey].push(projectName);
-    });
-    
-    // Build final color map with lightening for duplicates
-    const finalColorMap: Record<string, string> = {};
-    Object.entries(projectsByColor).forEach(([color, projectNames]) => {
-      projectNames.forEach((projectName, index) => {
-        const baseColor = getColorHex(color as ProjectColor);
-        if (index === 0) {
-          // First project with this color gets the base color
-          finalColorMap[projectName] = baseColor;
-        } else {
-          // Subsequent projects get progressively lighter
-          const lightenPercent = index * 25; // Lighten by 25% for each duplicate
-          finalColorMap[projectName] = lightenColor(baseColor, lightenPercent);
-        }
-      });
-    });
-    
-    return finalColorMap;
-  }, [filteredSessions]);
+    return colorMap;
+  }, [chartTotals]);
 
   const pieData = useMemo(() => {
     const grouped: Record<string, { value: number; color?: ProjectColor }> = {};
-    filteredSessions.forEach(s => {
-      const name = s.projectName || 'Unknown Project';
+    Object.values(chartTotals.projects).forEach(p => {
+      const name = p.name || 'Unknown Project';
       if (!grouped[name]) {
-        grouped[name] = { value: 0, color: s.color };
+        grouped[name] = { value: 0, color: p.color };
       }
-      grouped[name].value += (s.durationSeconds / 60);
+      grouped[name].value += (p.seconds / 60);
     });
     // Filter out very small values only if completely zero, otherwise show decimals
     return Object.entries(grouped)
@@ -329,38 +486,128 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
         color: data.color
       }))
       .filter(item => item.value > 0);
-  }, [filteredSessions]);
+  }, [chartTotals]);
 
-  // Session duration distribution data
-  const durationDistribution = useMemo(() => {
-    const buckets = [
-      { label: '0-15 min', min: 0, max: 15 },
-      { label: '15-30 min', min: 15, max: 30 },
-      { label: '30-60 min', min: 30, max: 60 },
-      { label: '1-2 hrs', min: 60, max: 120 },
-      { label: '2-4 hrs', min: 120, max: 240 },
-      { label: '4+ hrs', min: 240, max: Infinity }
-    ];
+  // Hours per project in this period and the previous one, grouped like the other project charts
+  const projectComparisonData = useMemo(() => {
+    if (!previousTotals) return [];
+    const rows: Record<string, { name: string; current: number; previous: number; color?: ProjectColor }> = {};
+    const add = (projects: DailyRollup['projects'], field: 'current' | 'previous') => {
+      Object.values(projects).forEach(p => {
+        const name = p.name || 'Unknown Project';
+        const row = rows[name] || (rows[name] = { name, current: 0, previous: 0, color: p.color });
+        row[field] += p.seconds / 3600;
+      });
+    };
+    add(chartTotals.projects, 'current');
+    add(groupRollupProjects(previousTotals.projects, drillId, projectsById), 'previous');
+    return Object.values(rows)
+      .map(row => ({ ...row, current: parseFloat(row.current.toFixed(2)), previous: parseFloat(row.previous.toFixed(2)) }))
+      .filter(row => row.current > 0 || row.previous > 0)
+      .sort((a, b) => b.current - a.current);
+  }, [chartTotals, previousTotals, drillId, projectsById]);
 
-    const counts = buckets.map(() => 0);
-    const totalSessions = filteredSessions.length;
+  // Tag analytics. Tag totals and the stacked chart follow the period and filters like the project charts.
+  const tagTotals: TagTotal[] = useMemo(() => getTagTotals(periodTotals), [periodTotals]);
+  const tagPairs: TagPair[] = useMemo(() => getTagCooccurrence(filteredSessions).slice(0, 6), [filteredSessions]);
 
-    filteredSessions.forEach(session => {
-      const minutes = session.durationSeconds / 60;
-      for (let i = 0; i < buckets.length; i++) {
-        if (minutes >= buckets[i].min && minutes < buckets[i].max) {
-          counts[i]++;
-          break;
-        }
-      }
-    });
+  // Trends cover the last weeks whatever the period; like periodRollups, they come from sessions while a filter is set
+  const tagTrends: WeeklyTagTotals[] = useMemo(() => {
+    const rollups = filterProjectId || filterTag
+      ? buildDailyRollups(sessions.filter(s => (!filterProjectId || s.projectId === filterProjectId) && (!filterTag || matchesTagFilter(s))))
+      : dailyRollups;
+    return getWeeklyTagTotals(rollups, TAG_TREND_WEEKS, Date.now());
+  }, [sessions, dailyRollups, filterProjectId, filterTag]);
 
-    return buckets.map((bucket, index) => ({
-      label: bucket.label,
-      count: counts[index],
-      percentage: totalSessions > 0 ? (counts[index] / totalSessions) * 100 : 0
+  // The most used tags get their own series; tag names can contain dots, so series are keyed by index
+  const tagChartKeys: string[] = useMemo(() => tagTotals.slice(0, TAG_CHART_LIMIT).map(t => t.tag), [tagTotals]);
+  const trendKeys: string[] = useMemo(() => {
+    const totals: Record<string, number> = {};
+    tagTrends.forEach(week => Object.entries(week.tags).forEach(([tag, seconds]) => {
+      totals[tag] = (totals[tag] || 0) + seconds;
     }));
-  }, [filteredSessions]);
+    return Object.keys(totals).sort((a, b) => totals[b] - totals[a]).slice(0, TAG_CHART_LIMIT);
+  }, [tagTrends]);
+  const tagChartColors: Record<string, string> = useMemo(
+    () => getTagChartColors(Array.from(new Set([...tagTotals.map(t => t.tag), ...trendKeys])), tagColors),
+    [tagTotals, trendKeys, tagColors]
+  );
+
+  const tagChartData = useMemo(() => {
+    return periodRollups
+      .filter(r => r.totalSeconds > 0)
+      .map(r => {
+        const entry: Record<string, any> = {
+          date: fromDateKey(r.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        };
+        Object.entries(r.tags || {}).forEach(([tag, seconds]) => {
+          if (!(seconds > 0)) return;
+          const index = tagChartKeys.indexOf(tag);
+          const key = index === -1 ? 'other' : `tag${index}`;
+          entry[key] = (entry[key] || 0) + seconds / 60;
+        });
+        Object.keys(entry).forEach(key => {
+          if (key !== 'date') entry[key] = Math.round(entry[key]); // round minutes for display
+        });
+        return entry;
+      });
+  }, [periodRollups, tagChartKeys]);
+  const hasOtherTags = tagTotals.length > TAG_CHART_LIMIT;
+
+  const tagTrendData = useMemo(() => {
+    return tagTrends.map(week => {
+      const entry: Record<string, any> = {
+        week: fromDateKey(week.weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      };
+      trendKeys.forEach((tag, index) => {
+        entry[`tag${index}`] = parseFloat(((week.tags[tag] || 0) / 3600).toFixed(2));
+      });
+      return entry;
+    });
+  }, [tagTrends, trendKeys]);
+
+  const taskStats: TaskStats[] = useMemo(() => getTaskStats(filteredSessions, tasks), [filteredSessions, tasks]);
+  const tasksById = useMemo(() => {
+    const byId: Record<string, Task> = {};
+    tasks.forEach(t => { byId[t.id] = t; });
+    return byId;
+  }, [tasks]);
+
+  const earnings: EarningsSummary = useMemo(() => summarizeEarnings(filteredSessions, projectsById), [filteredSessions, projectsById]);
+  const previousEarnings: EarningsSummary | null = useMemo(
+    () => previousRange ? summarizeEarnings(previousSessions, projectsById) : null,
+    [previousRange, previousSessions, projectsById]
+  );
+  const hasBilling = useMemo(() => projects.some(p => p.billing), [projects]);
+
+  // Budgets are measured over their own periods, whatever period the Dashboard shows
+  const budgetData = useMemo(() => {
+    return (Object.values(budgetUsages) as BudgetUsage[])
+      .filter(u => !u.project.archived)
+      .map(u => ({
+        name: u.project.name,
+        period: BUDGET_PERIOD_LABELS[u.project.budget!.period],
+        budget: parseFloat((u.budgetSeconds / 3600).toFixed(2)),
+        actual: parseFloat((u.usedSeconds / 3600).toFixed(2)),
+        color: u.usedSeconds > u.budgetSeconds ? '#ef4444' : resolveProjectColor(u.project.color)
+      }));
+  }, [budgetUsages]);
+
+  // Session duration distribution data
+  const durationDistribution = useMemo(() => {
+    const totalSessions = periodTotals.sessionCount;
+    return SESSION_DURATION_BUCKETS.map((bucket, index) => {
+      const count = periodTotals.durationBuckets[index] || 0;
+      const previousCount = previousTotals?.durationBuckets[index] || 0;
+      return {
+        label: bucket.label,
+        count,
+        percentage: totalSessions > 0 ? (count / totalSessions) * 100 : 0,
+        previousCount,
+        previousPercentage: previousTotals?.sessionCount ? (previousCount / previousTotals.sessionCount) * 100 : 0
+      };
+    });
+  }, [periodTotals, previousTotals]);
 
   const handleGetInsights = async () => {
     // Coming soon placeholder for AI insights in v1
@@ -390,38 +637,180 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
     }
   };
 
+  // Change from the previous period, e.g. "↗ 2h 5m (+25%)"; previous is its value there
+  const renderDelta = (current: number, previous: number, format: (value: number) => string) => {
+    const diff = current - previous;
+    const percent = previous > 0 ? Math.round((diff / previous) * 100) : null;
+    return (
+      <span
+        className={`inline-flex items-center gap-0.5 text-xs font-medium ${
+          diff > 0 ? 'text-green-500' : diff < 0 ? 'text-red-500' : darkMode ? 'text-gray-500' : 'text-gray-400'
+        }`}
+        title={`Previous period: ${format(previous)}`}
+      >
+        {diff > 0 && <ArrowUpRight size={14} />}
+        {diff < 0 && <ArrowDownRight size={14} />}
+        {diff === 0 ? 'No change' : format(Math.abs(diff))}
+        {percent !== null && diff !== 0 && ` (${diff > 0 ? '+' : ''}${percent}%)`}
+      </span>
+    );
+  };
+
   const openEditModal = (session: Session) => {
     setEditingSession(session);
     setEditNotes(session.notes || '');
     setEditTags(session.tags || []);
-    setEditDurationMinutes(Math.ceil(session.durationSeconds / 60));
+    setEditStart(toDateTimeLocalValue(session.startTime));
+    setEditEnd(toDateTimeLocalValue(session.endTime));
     setEditProjectId(session.projectId);
+    setEditBillable(isBillable(session));
+    setIsSplitting(false);
+    setSplitTime(toDateTimeLocalValue(session.startTime + (session.endTime - session.startTime) / 2));
+    setSplitSecondProjectId(session.projectId);
+    setShowHistory(false);
+  };
+
+  const editingSessionId = editingSession?.id;
+
+  useEffect(() => {
+    setSessionHistory([]);
+    if (!editingSessionId) return;
+    return subscribeToSessionHistory(editingSessionId, setSessionHistory);
+  }, [editingSessionId, subscribeToSessionHistory]);
+
+  const formatHistoryValue = (field: TrackedSessionField, value: unknown): string => {
+    switch (field) {
+      case 'projectId': return projectsById[value as string]?.name || 'Deleted project';
+      case 'startTime':
+      case 'endTime': return new Date(value as number).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+      case 'durationSeconds': return formatMinutes((value as number) / 60);
+      case 'notes': return (value as string) ? `"${value}"` : '(none)';
+      case 'tags': return (value as string[]).length > 0 ? (value as string[]).join(', ') : '(none)';
+      case 'billable': return value ? 'Yes' : 'No';
+    }
+  };
+
+  // Check a range against every stored session before saving it. Null when it is free;
+  // undefined when the check itself failed, which the user has already been told about.
+  const checkStoredRange = async (startTime: number, endTime: number, excludeIds?: string[]): Promise<string | null | undefined> => {
+    setIsCheckingRange(true);
+    try {
+      return await checkSessionRange(startTime, endTime, excludeIds);
+    } catch (error) {
+      console.error('Error checking for overlapping sessions:', error);
+      alert("Couldn't check this time against your other sessions, so nothing was saved. Please try again.");
+      return undefined;
+    } finally {
+      setIsCheckingRange(false);
+    }
+  };
+
+  // Put the session back the way it was before `change`; the revert itself is logged as a new change
+  const revertToBeforeChange = async (change: SessionChange) => {
+    if (!editingSession || isCheckingRange) return;
+    const reverted = sessionBeforeChange(editingSession, sessionHistory, change.id, projectsById);
+    const rangeError = validateSessionRange(reverted.startTime, reverted.endTime, sessions, Date.now(), [reverted.id])
+      || await checkStoredRange(reverted.startTime, reverted.endTime, [reverted.id]);
+    if (rangeError === undefined) return;
+    if (rangeError) {
+      alert(`This version can't be restored: ${rangeError}`);
+      return;
+    }
+    if (window.confirm("Revert this session to how it was before this change? Later changes will be undone too.")) {
+      updateSession(reverted);
+      setEditingSession(null);
+    }
   };
 
-  const saveEdit = () => {
+  const adjacentSessions = useMemo(() => {
+    return editingSession ? getAdjacentSessions(sessions, editingSession) : {};
+  }, [editingSession, sessions]);
+
+  const splitError = useMemo(() => {
+    if (!editingSession || !isSplitting) return null;
+    const at = fromDateTimeLocalValue(splitTime);
+    if (isNaN(at) || at <= editingSession.startTime || at >= editingSession.endTime) {
+      return 'Pick a time between the start and end of this session.';
+    }
+    return null;
+  }, [editingSession, isSplitting, splitTime]);
+
+  const toSessionProject = (project: Project) => ({ projectId: project.id, projectName: project.name, color: project.color });
+
+  // The session being edited with the modal's unsaved notes, tags, billable flag and project,
+  // which split and merge carry over just as Save would
+  const withModalEdits = (session: Session, project: Project): Session => ({
+    ...session,
+    ...toSessionProject(project),
+    notes: editNotes,
+    tags: editTags,
+    billable: editBillable
+  });
+
+  const confirmSplit = () => {
+    if (!editingSession || splitError) return;
+    const firstProject = projects.find(p => p.id === editProjectId);
+    const secondProject = projects.find(p => p.id === splitSecondProjectId);
+    if (!firstProject || !secondProject) return;
+
+    splitSession(splitSessionAt(
+      withModalEdits(editingSession, firstProject),
+      fromDateTimeLocalValue(splitTime),
+      toSessionProject(firstProject),
+      toSessionProject(secondProject)
+    ));
+    setEditingSession(null);
+  };
+
+  const confirmMerge = (other: Session) => {
     if (!editingSession) return;
+    const project = projects.find(p => p.id === editProjectId);
+    if (!project) return;
+    if (!window.confirm(`Merge this session with the ${other.projectName} session? The merged session keeps this session's project.`)) return;
+    mergeSessions(mergeSessionPair(withModalEdits(editingSession, project), other), [other.id]);
+    setEditingSession(null);
+  };
+
+  // The edited interval; fields left untouched keep their full-precision timestamps
+  const editedRange = useMemo(() => {
+    if (!editingSession) return null;
+    const startChanged = editStart !== toDateTimeLocalValue(editingSession.startTime);
+    const endChanged = editEnd !== toDateTimeLocalValue(editingSession.endTime);
+    return {
+      startTime: startChanged ? fromDateTimeLocalValue(editStart) : editingSession.startTime,
+      endTime: endChanged ? fromDateTimeLocalValue(editEnd) : editingSession.endTime,
+      changed: startChanged || endChanged
+    };
+  }, [editingSession, editStart, editEnd]);
+
+  const editRangeError = useMemo(() => {
+    if (!editingSession || !editedRange?.changed) return null;
+    return validateSessionRange(editedRange.startTime, editedRange.endTime, sessions, Date.now(), [editingSession.id])
+      || storedRangeError;
+  }, [editingSession, editedRange, sessions, storedRangeError]);
+
+  const saveEdit = async () => {
+    if (!editingSession || !editedRange || editRangeError || isCheckingRange) return;
     
     // Find the selected project
     const selectedProject = projects.find(p => p.id === editProjectId);
     if (!selectedProject) return;
     
-    // Calculate new duration and adjust startTime if duration changed
-    const newDurationSeconds = editDurationMinutes * 60;
-    let updatedSession = {
-      ...editingSession,
-      notes: editNotes,
-      tags: editTags,
-      projectId: selectedProject.id,
-      projectName: selectedProject.name,
-      color: selectedProject.color
-    };
+    let updatedSession = withModalEdits(editingSession, selectedProject);
     
-    // If duration changed, adjust startTime (keep endTime the same)
-    if (newDurationSeconds !== editingSession.durationSeconds) {
+    // Duration follows the interval, so the timeline, heatmap and day buckets agree with it
+    if (editedRange.changed) {
+      const rangeError = await checkStoredRange(editedRange.startTime, editedRange.endTime, [editingSession.id]);
+      if (rangeError === undefined) return;
+      if (rangeError) {
+        setStoredRangeError(rangeError);
+        return;
+      }
       updatedSession = {
         ...updatedSession,
-        durationSeconds: newDurationSeconds,
-        startTime: editingSession.endTime - (newDurationSeconds * 1000)
+        startTime: editedRange.startTime,
+        endTime: editedRange.endTime,
+        durationSeconds: Math.round((editedRange.endTime - editedRange.startTime) / 1000)
       };
     }
     
@@ -429,6 +818,122 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
     setEditingSession(null);
   };
 
+  const openManualEntry = () => {
+    // Default to the hour that just ended
+    const end = new Date();
+    end.setSeconds(0, 0);
+    setManualProjectId((projects.find(p => !p.archived) || projects[0])?.id || '');
+    setManualStart(toDateTimeLocalValue(end.getTime() - 60 * 60 * 1000));
+    setManualEnd(toDateTimeLocalValue(end.getTime()));
+    setManualNotes('');
+    setManualTags([]);
+    setNewManualTag('');
+    setManualBillable(true);
+    setIsManualEntryOpen(true);
+  };
+
+  // A stored overlap only holds for the range it was found on
+  useEffect(() => {
+    setStoredRangeError(null);
+  }, [editingSessionId, editStart, editEnd, isManualEntryOpen, manualStart, manualEnd]);
+
+  const manualEntryError = useMemo(() => {
+    if (!isManualEntryOpen) return null;
+    return validateSessionRange(fromDateTimeLocalValue(manualStart), fromDateTimeLocalValue(manualEnd), sessions, Date.now())
+      || storedRangeError;
+  }, [isManualEntryOpen, manualStart, manualEnd, sessions, storedRangeError]);
+
+  const saveManualEntry = async () => {
+    const selectedProject = projects.find(p => p.id === manualProjectId);
+    if (!selectedProject || manualEntryError || isCheckingRange) return;
+
+    const startTime = fromDateTimeLocalValue(manualStart);
+    const endTime = fromDateTimeLocalValue(manualEnd);
+    const rangeError = await checkStoredRange(startTime, endTime);
+    if (rangeError === undefined) return;
+    if (rangeError) {
+      setStoredRangeError(rangeError);
+      return;
+    }
+    addSession({
+      id: crypto.randomUUID(),
+      projectId: selectedProject.id,
+      projectName: selectedProject.name,
+      startTime,
+      endTime,
+      durationSeconds: Math.round((endTime - startTime) / 1000),
+      notes: manualNotes,
+      tags: manualTags,
+      billable: manualBillable,
+      color: selectedProject.color
+    });
+    setIsManualEntryOpen(false);
+  };
+
+  const openInvoiceModal = () => {
+    // Default to the current month so far, for the first client that has a rate
+    const today = new Date();
+    setInvoiceClientId((projects.find(p => p.billing && !p.parentId) || projects.find(p => p.billing) || projects[0])?.id || '');
+    setInvoiceFrom(toDateKey(new Date(today.getFullYear(), today.getMonth(), 1).getTime()));
+    setInvoiceTo(toDateKey(today.getTime()));
+    setIsInvoiceOpen(true);
+  };
+
+  // Invoice period as [from, to) timestamps; the end date is included in full
+  const invoiceRange = useMemo(() => {
+    if (!invoiceFrom || !invoiceTo) return null;
+    const to = fromDateKey(invoiceTo);
+    to.setDate(to.getDate() + 1);
+    return { from: fromDateKey(invoiceFrom).getTime(), to: to.getTime() };
+  }, [invoiceFrom, invoiceTo]);
+
+  const openInvoice = async () => {
+    const client = projectsById[invoiceClientId];
+    if (!client || !invoiceRange || invoiceRange.from >= invoiceRange.to || isPreparingInvoice) return;
+
+    // Opened before any read so the browser still treats the pop-up as a response to the click
+    const invoiceWindow = window.open('', '_blank');
+    if (!invoiceWindow) {
+      alert("The invoice couldn't be opened. Allow pop-ups for this site and try again.");
+      return;
+    }
+
+    // A range that starts before the loaded sessions is read from storage, so nothing is left off the bill
+    let rangeSessions = sessions;
+    if (loadedSince !== null && invoiceRange.from < loadedSince) {
+      setIsPreparingInvoice(true);
+      try {
+        const stored = await fetchSessionsEndingBetween(invoiceRange.from, invoiceRange.to);
+        rangeSessions = stored.map(s => withCurrentProject(s, projectsById));
+      } catch (error) {
+        console.error('Error loading sessions for the invoice:', error);
+        invoiceWindow.close();
+        alert("Couldn't load the sessions for this period, so no invoice was created. Please try again.");
+        return;
+      } finally {
+        setIsPreparingInvoice(false);
+      }
+    }
+
+    // Same tag filter as History, so the invoice matches what is listed there
+    const invoiceSessions = filterTag
+      ? rangeSessions.filter(matchesTagFilter)
+      : rangeSessions;
+    const html = renderInvoiceHtml(buildInvoice(client, invoiceSessions, projectsById, invoiceRange.from, invoiceRange.to));
+
+    invoiceWindow.document.write(html);
+    invoiceWindow.document.close();
+    invoiceWindow.focus();
+    invoiceWindow.print();
+  };
+
+  const addManualTag = () => {
+    if (newManualTag.trim() && !manualTags.includes(newManualTag.trim())) {
+      setManualTags([...manualTags, newManualTag.trim()]);
+      setNewManualTag('');
+    }
+  };
+
   const addEditTag = () => {
     if (newEditTag.trim() && !editTags.includes(newEditTag.trim())) {
       setEditTags([...editTags, newEditTag.trim()]);
@@ -440,13 +945,42 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
     setEditTags(editTags.filter(t => t !== tag));
   };
 
+  // Starts out covering the days of the period being shown, or the last 7 days for all time
+  const openCustomRange = () => {
+    if (isCustomPeriod(period)) return;
+    const end = periodRange.end ?? Date.now() + 1;
+    changeCustomRange(toDateKey(periodRange.start ?? end - 7 * 24 * 60 * 60 * 1000), toDateKey(end - 1));
+  };
+
+  const changeCustomRange = (from: string, to: string) => {
+    setCustomFrom(from);
+    setCustomTo(to);
+    if (from && to && from <= to) onPeriodChange({ from, to });
+  };
+
+  const formatRangeDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  // Dates a [start, end) range covers, e.g. "Oct 5, 2026 – Oct 11, 2026"; a running one ends now
+  const formatRange = (range: PeriodRange): string => {
+    const first = formatRangeDate(range.start ?? 0);
+    const last = formatRangeDate((range.end ?? Date.now() + 1) - 1);
+    return first === last ? first : `${first} – ${last}`;
+  };
+
   const getPeriodLabel = (period: AnalyticsPeriod): string => {
+    if (isCustomPeriod(period)) return formatRange(getPeriodRange(period, Date.now()));
     switch (period) {
       case 'day': return 'Today';
       case 'last7days': return 'Last 7 Days';
       case 'last30days': return 'Last 30 Days';
+      case 'thisWeek': return 'This Week';
+      case 'lastWeek': return 'Last Week';
+      case 'thisMonth': return 'This Month';
+      case 'lastMonth': return 'Last Month';
+      case 'thisQuarter': return 'This Quarter';
+      case 'yearToDate': return 'Year to Date';
       case 'all': return 'All Time';
-      default: return period;
     }
   };
 
@@ -454,11 +988,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
   const heatmapData = useMemo(() => {
     // Calculate total time per day
     const dayData: Record<string, number> = {}; // dateKey -> total minutes
-    sessions.forEach(s => {
-      const date = new Date(s.endTime);
-      const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-      const minutes = Math.round(s.durationSeconds / 60);
-      dayData[dateKey] = (dayData[dateKey] || 0) + minutes;
+    dailyRollups.forEach(r => {
+      dayData[r.date] = Math.round(r.totalSeconds / 60);
     });
 
     const now = new Date();
@@ -583,7 +1114,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
     });
 
     return { weeks, monthLabels, maxMinutes };
-  }, [sessions]);
+  }, [dailyRollups]);
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-12">
@@ -659,7 +1190,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                 {displayByProject.map(({ name, time, sessions: projectSessions }) => {
                   const percentage = (time / displayTotalTime) * 100;
                   const session = projectSessions[0];
-                  const colorTheme = PROJECT_COLORS[session?.color] || PROJECT_COLORS.blue;
+                  const projectColor = resolveProjectColor(session?.color);
                   return (
                     <div 
                       key={name}
@@ -669,7 +1200,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                     >
                       <div className="flex items-center justify-between mb-2">
                         <div className="flex items-center gap-3">
-                          <div className={`w-3 h-3 rounded-full ${colorTheme.primary}`}></div>
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: projectColor }}></div>
                           <span className={`font-medium ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>
                             {name}
                           </span>
@@ -683,8 +1214,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                           darkMode ? 'bg-gray-700' : 'bg-gray-200'
                         }`}>
                           <div 
-                            className={`h-full ${colorTheme.primary}`}
-                            style={{ width: `${percentage}%` }}
+                            className="h-full"
+                            style={{ width: `${percentage}%`, backgroundColor: projectColor }}
                           ></div>
                         </div>
                         <span className={`text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -867,10 +1398,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                     color: darkMode ? '#e5e7eb' : '#111827' 
                   }}
                   formatter={(value: number, name: string, props: any) => {
-                    const percentage = props.payload?.percentage || 0;
+                    const isPrevious = props.dataKey === 'previousCount';
+                    const percentage = (isPrevious ? props.payload?.previousPercentage : props.payload?.percentage) || 0;
                     return [
                       `${value} session${value !== 1 ? 's' : ''} (${percentage.toFixed(1)}%)`,
-                      'Count'
+                      isPrevious ? 'Previous period' : 'Count'
                     ];
                   }}
                 />
@@ -879,6 +1411,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                   fill="#3b82f6" 
                   radius={[4, 4, 0, 0]}
                 />
+                {previousTotals && (
+                  <Bar dataKey="previousCount" fill={darkMode ? '#4b5563' : '#d1d5db'} radius={[4, 4, 0, 0]} />
+                )}
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -897,12 +1432,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
             </span>
           </div>
           <div className={`flex rounded-lg p-1 gap-1 flex-wrap ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-            {(['day', 'last7days', 'last30days', 'all'] as AnalyticsPeriod[]).map(p => (
+            {PERIOD_PRESETS.map(p => (
               <button
                 key={p}
-                onClick={() => setPeriod(p)}
-                className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
-                  period === p 
+                onClick={() => onPeriodChange(p)}
+                className={`px-3 py-2 text-sm font-medium rounded-md transition-all ${
+                  period === p
                     ? (darkMode ? 'bg-gray-600 shadow text-gray-100' : 'bg-white shadow text-gray-900')
                     : (darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700')
                 }`}
@@ -910,8 +1445,61 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                 {getPeriodLabel(p)}
               </button>
             ))}
+            <button
+              onClick={openCustomRange}
+              className={`px-3 py-2 text-sm font-medium rounded-md transition-all ${
+                isCustomPeriod(period)
+                  ? (darkMode ? 'bg-gray-600 shadow text-gray-100' : 'bg-white shadow text-gray-900')
+                  : (darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700')
+              }`}
+            >
+              Custom
+            </button>
           </div>
         </div>
+
+        <div className={`flex items-center justify-between flex-wrap gap-4 mt-4 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+          {isCustomPeriod(period) ? (
+            <div className="flex items-center gap-2 flex-wrap">
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => changeCustomRange(e.target.value, customTo)}
+                className={`border rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                  darkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+                }`}
+              />
+              <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => changeCustomRange(customFrom, e.target.value)}
+                className={`border rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                  darkMode ? 'bg-gray-700 border-gray-600 text-gray-100' : 'border-gray-300'
+                }`}
+              />
+            </div>
+          ) : (
+            <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {periodRange.start === undefined ? 'Everything tracked' : formatRange(periodRange)}
+            </span>
+          )}
+          <label className={`flex items-center gap-2 text-sm ${periodRange.start === undefined ? 'opacity-50' : 'cursor-pointer'} ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={compare && periodRange.start !== undefined}
+              disabled={periodRange.start === undefined}
+              onChange={(e) => onCompareChange(e.target.checked)}
+              className="rounded"
+            />
+            Compare with previous period
+            {previousRange && (
+              <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>({formatRange(previousRange)})</span>
+            )}
+          </label>
+        </div>
       </div>
       
       {/* Overview Cards */}
@@ -926,6 +1514,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
           <div className={`text-4xl font-bold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
             {formatDuration(totalTime)}
           </div>
+          {previousTotals && (
+            <div className={`flex items-center gap-2 mt-2 text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              {renderDelta(totalTime, previousTotals.totalSeconds, formatDuration)}
+              <span>vs. {formatDuration(previousTotals.totalSeconds)}</span>
+            </div>
+          )}
         </div>
 
         <div className={`p-6 rounded-2xl shadow-sm border flex flex-col justify-between ${
@@ -936,8 +1530,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
             <span className="font-medium text-sm uppercase tracking-wide">Sessions</span>
           </div>
           <div className={`text-4xl font-bold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
-            {filteredSessions.length}
+            {periodTotals.sessionCount}
           </div>
+          {previousTotals && (
+            <div className={`flex items-center gap-2 mt-2 text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              {renderDelta(periodTotals.sessionCount, previousTotals.sessionCount, String)}
+              <span>vs. {previousTotals.sessionCount}</span>
+            </div>
+          )}
         </div>
 
         <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-2xl shadow-sm border border-indigo-100 flex flex-col justify-between relative overflow-hidden">
@@ -973,6 +1573,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
         </div>
       )}
 
+      {/* Project level shown in the charts */}
+      {(hasProjectHierarchy || drillId) && (
+        <div className={`flex flex-wrap items-center gap-1 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          <button
+            type="button"
+            onClick={() => setProjectDrillId(null)}
+            className={`font-medium ${drillId ? (darkMode ? 'hover:text-gray-200' : 'hover:text-gray-800') : (darkMode ? 'text-gray-100' : 'text-gray-800')}`}
+          >
+            All projects
+          </button>
+          {drillPath.map((id, index) => (
+            <React.Fragment key={id}>
+              <span>›</span>
+              <button
+                type="button"
+                onClick={() => setProjectDrillId(id)}
+                className={`font-medium ${index < drillPath.length - 1 ? (darkMode ? 'hover:text-gray-200' : 'hover:text-gray-800') : (darkMode ? 'text-gray-100' : 'text-gray-800')}`}
+              >
+                {projectsById[id].name}
+              </button>
+            </React.Fragment>
+          ))}
+          <span className="ml-2 text-xs">Click a project in the charts to see its sub-projects.</span>
+        </div>
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Bar Chart */}
@@ -982,7 +1608,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
           </div>
           <div className="h-[250px] w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={darkMode ? '#374151' : '#f0f0f0'} />
                 <XAxis dataKey="date" axisLine={false} tickLine={false} fontSize={12} tickMargin={10} stroke={darkMode ? '#9ca3af' : '#9ca3af'} />
                 <YAxis axisLine={false} tickLine={false} fontSize={12} stroke={darkMode ? '#9ca3af' : '#9ca3af'} />
@@ -995,10 +1621,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                 {projectKeys.map((key) => {
                   const fill = getProjectColorMap[key] || '#3b82f6'; // Default to blue if not found
                   return (
-                    <Bar key={key} dataKey={key} stackId="time" fill={fill} radius={[4, 4, 0, 0]} />
+                    <Bar key={key} dataKey={key} stackId="time" fill={fill} radius={[4, 4, 0, 0]} onClick={() => drillInto(chartProjectIds[key])} />
                   );
                 })}
-              </BarChart>
+                {previousRange && (
+                  <Line type="monotone" dataKey="__previous" name="Previous period" stroke={darkMode ? '#9ca3af' : '#6b7280'} strokeDasharray="4 4" strokeWidth={2} dot={false} />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
@@ -1010,33 +1639,305 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
            <h3 className={`font-bold text-lg mb-6 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Time per Project</h3>
            <div className="h-[250px] w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={pieData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={60}
-                  outerRadius={80}
-                  fill="#8884d8"
-                  paddingAngle={5}
-                  dataKey="value"
-                >
-                  {pieData.map((entry, index) => {
-                    const fill = getProjectColorMap[entry.name] || '#3b82f6'; // Default to blue if not found
-                    return (
-                      <Cell key={`cell-${index}`} fill={fill} />
-                    );
-                  })}
-                </Pie>
-                <Tooltip formatter={(value: number, name: string, props: any) => {
-                  const projectName = props.payload?.name || name;
-                  return [formatMinutes(value), projectName];
-                }} />
-                <Legend verticalAlign="bottom" height={36} iconType="circle" />
-              </PieChart>
+              {previousTotals ? (
+                <BarChart data={projectComparisonData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={darkMode ? '#374151' : '#f0f0f0'} />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={12} tickMargin={10} stroke="#9ca3af" />
+                  <YAxis axisLine={false} tickLine={false} fontSize={12} stroke="#9ca3af" unit="h" />
+                  <Tooltip
+                    cursor={{fill: darkMode ? '#111827' : '#f9fafb'}}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: darkMode ? '#1f2937' : '#fff', color: darkMode ? '#e5e7eb' : '#111827' }}
+                    formatter={(value: number, name: string) => [`${value}h`, name]}
+                  />
+                  <Legend />
+                  <Bar dataKey="current" name={getPeriodLabel(period)} radius={[4, 4, 0, 0]} onClick={(entry: any) => drillInto(chartProjectIds[entry?.name])}>
+                    {projectComparisonData.map((entry, index) => (
+                      <Cell key={`current-${index}`} fill={getProjectColorMap[entry.name] || resolveProjectColor(entry.color)} />
+                    ))}
+                  </Bar>
+                  <Bar dataKey="previous" name="Previous period" fill={darkMode ? '#4b5563' : '#d1d5db'} radius={[4, 4, 0, 0]} />
+                </BarChart>
+              ) : (
+                <PieChart>
+                  <Pie
+                    data={pieData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={60}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    paddingAngle={5}
+                    dataKey="value"
+                  >
+                    {pieData.map((entry, index) => {
+                      const fill = getProjectColorMap[entry.name] || '#3b82f6'; // Default to blue if not found
+                      return (
+                        <Cell key={`cell-${index}`} fill={fill} onClick={() => drillInto(chartProjectIds[entry.name])} />
+                      );
+                    })}
+                  </Pie>
+                  <Tooltip formatter={(value: number, name: string, props: any) => {
+                    const projectName = props.payload?.name || name;
+                    return [formatMinutes(value), projectName];
+                  }} />
+                  <Legend verticalAlign="bottom" height={36} iconType="circle" />
+                </PieChart>
+              )}
             </ResponsiveContainer>
           </div>
         </div>
+
+        {/* Stacked Tag Chart */}
+        <div className={`p-6 rounded-2xl shadow-sm border min-h-[300px] lg:col-span-2 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+          <div className="mb-6">
+            <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Time per Tag</h3>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>A session with several tags counts towards each of them.</p>
+          </div>
+          {tagTotals.length > 0 ? (
+            <div className="h-[250px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={tagChartData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={darkMode ? '#374151' : '#f0f0f0'} />
+                  <XAxis dataKey="date" axisLine={false} tickLine={false} fontSize={12} tickMargin={10} stroke="#9ca3af" />
+                  <YAxis axisLine={false} tickLine={false} fontSize={12} stroke="#9ca3af" />
+                  <Tooltip 
+                    cursor={{fill: darkMode ? '#111827' : '#f9fafb'}}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: darkMode ? '#1f2937' : '#fff', color: darkMode ? '#e5e7eb' : '#111827' }}
+                    formatter={(value: number, name: string) => [formatMinutes(value), name]}
+                  />
+                  <Legend />
+                  {tagChartKeys.map((tag, index) => (
+                    <Bar key={tag} dataKey={`tag${index}`} name={`#${tag}`} stackId="time" fill={tagChartColors[tag]} />
+                  ))}
+                  {hasOtherTags && (
+                    <Bar dataKey="other" name="Other tags" stackId="time" fill={darkMode ? '#4b5563' : '#d1d5db'} />
+                  )}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No tagged sessions in this period.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Tag Analytics */}
+      {(tagTotals.length > 0 || trendKeys.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={`p-6 rounded-2xl shadow-sm border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+            <div className="mb-4">
+              <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Tag Breakdown</h3>
+              <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {getPeriodLabel(period)} · share of the {formatDuration(totalTime)} tracked
+              </p>
+            </div>
+            {tagTotals.length === 0 && (
+              <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No tagged sessions in this period.</p>
+            )}
+            <div className="space-y-3">
+              {tagTotals.map(({ tag, seconds }) => {
+                const share = totalTime > 0 ? (seconds / totalTime) * 100 : 0;
+                return (
+                  <div key={tag} className="flex items-center gap-3 text-sm">
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: tagChartColors[tag] }}></div>
+                    <div className="flex-1 min-w-0">
+                      <div className={`truncate font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>#{tag}</div>
+                      <div className={`mt-1 h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                        <div className="h-full rounded-full" style={{ width: `${Math.min(100, share)}%`, backgroundColor: tagChartColors[tag] }} />
+                      </div>
+                    </div>
+                    {previousTotals && (
+                      <span className="w-28 text-right flex-shrink-0">{renderDelta(seconds, previousTotals.tags[tag] || 0, formatDuration)}</span>
+                    )}
+                    <span className={`w-20 text-right flex-shrink-0 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{formatDuration(seconds)}</span>
+                    <span className={`w-12 text-right flex-shrink-0 font-medium ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{Math.round(share)}%</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {tagPairs.length > 0 && (
+              <div className={`mt-6 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                <h4 className={`text-xs font-semibold uppercase tracking-wide mb-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Often Used Together</h4>
+                <div className="space-y-2">
+                  {tagPairs.map(({ tags: [a, b], seconds, sessionCount }) => (
+                    <div key={`${a}+${b}`} className="flex items-center gap-3 text-sm">
+                      <span className={`flex-1 truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>#{a} + #{b}</span>
+                      <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{sessionCount} {sessionCount === 1 ? 'session' : 'sessions'}</span>
+                      <span className={`w-20 text-right font-medium ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{formatDuration(seconds)}</span>
+                    </div>
+                  ))}
+                </div>
+                {hasUnloadedSessions && (
+                  <p className={`text-xs mt-4 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                    Only loaded sessions are counted. Load older sessions in History to include the rest of the period.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className={`p-6 rounded-2xl shadow-sm border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+            <div className="mb-6">
+              <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Tag Trends</h3>
+              <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Hours per week over the last {TAG_TREND_WEEKS} weeks</p>
+            </div>
+            <div className="h-[250px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={tagTrendData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={darkMode ? '#374151' : '#f0f0f0'} />
+                  <XAxis dataKey="week" axisLine={false} tickLine={false} fontSize={12} tickMargin={10} stroke="#9ca3af" />
+                  <YAxis axisLine={false} tickLine={false} fontSize={12} stroke="#9ca3af" unit="h" />
+                  <Tooltip
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: darkMode ? '#1f2937' : '#fff', color: darkMode ? '#e5e7eb' : '#111827' }}
+                    formatter={(value: number, name: string) => [`${value}h`, name]}
+                    labelFormatter={(label: string) => `Week of ${label}`}
+                  />
+                  <Legend />
+                  {trendKeys.map((tag, index) => (
+                    <Line key={tag} type="monotone" dataKey={`tag${index}`} name={`#${tag}`} stroke={tagChartColors[tag]} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Budget vs. Actual */}
+      {budgetData.length > 0 && (
+        <div className={`p-6 rounded-2xl shadow-sm border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+          <div className="mb-6">
+            <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Budget vs. Actual</h3>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Hours used of each project's budget for its current week, month or in total.</p>
+          </div>
+          <div className="h-[250px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={budgetData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={darkMode ? '#374151' : '#f0f0f0'} />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={12} tickMargin={10} stroke="#9ca3af" />
+                <YAxis axisLine={false} tickLine={false} fontSize={12} stroke="#9ca3af" unit="h" />
+                <Tooltip
+                  cursor={{fill: darkMode ? '#111827' : '#f9fafb'}}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', backgroundColor: darkMode ? '#1f2937' : '#fff', color: darkMode ? '#e5e7eb' : '#111827' }}
+                  formatter={(value: number, name: string, props: any) => [`${value}h`, `${name} ${props.payload?.period || ''}`]}
+                />
+                <Legend />
+                <Bar dataKey="budget" name="Budget" fill={darkMode ? '#4b5563' : '#d1d5db'} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="actual" name="Actual" radius={[4, 4, 0, 0]}>
+                  {budgetData.map((entry, index) => (
+                    <Cell key={`budget-${index}`} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Tasks */}
+      {taskStats.length > 0 && (
+        <div className={`p-6 rounded-2xl shadow-sm border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+          <div className="mb-4">
+            <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Time per Task</h3>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {getPeriodLabel(period)} · pomodoros are every work round finished on a task, whatever the period
+              {hasUnloadedSessions && ' · older sessions are not loaded yet, so the times are partial'}
+            </p>
+          </div>
+          <div className="space-y-3">
+            {taskStats.map(({ taskId, task, seconds, pomodoros }) => {
+              const project = task ? projectsById[task.projectId] : null;
+              const estimate = task?.estimatedPomodoros || 0;
+              const isOverEstimate = estimate > 0 && pomodoros > estimate;
+              return (
+                <div key={taskId} className="flex items-center gap-3 text-sm">
+                  <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: resolveProjectColor(project?.color) }}></div>
+                  <div className="flex-1 min-w-0">
+                    <div className={`truncate font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                      {task ? task.title : 'Deleted task'}
+                      {project && <span className={`font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}> · {project.name}</span>}
+                    </div>
+                    {estimate > 0 && (
+                      <div className={`mt-1 h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                        <div
+                          className={`h-full rounded-full ${isOverEstimate ? 'bg-red-500' : ''}`}
+                          style={{
+                            width: `${Math.min(100, (pomodoros / estimate) * 100)}%`,
+                            ...(!isOverEstimate && { backgroundColor: resolveProjectColor(project?.color) })
+                          }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {task && (
+                    <span className={`text-xs flex-shrink-0 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{TASK_STATUS_LABELS[task.status]}</span>
+                  )}
+                  <span className={`w-20 text-right flex-shrink-0 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{formatDuration(seconds)}</span>
+                  <span
+                    className={`w-20 text-right flex-shrink-0 font-medium ${isOverEstimate ? 'text-red-500' : darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                    title="Pomodoros actual / estimated"
+                  >
+                    {pomodoros}{estimate > 0 ? ` / ${estimate}` : ''}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Earnings */}
+      <div className={`p-6 rounded-2xl shadow-sm border ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100'}`}>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+          <div>
+            <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>Earnings</h3>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {getPeriodLabel(period)}{filterProjectId || filterTag ? ' · matching the History filters' : ''}
+            </p>
+          </div>
+          <Button size="sm" variant="secondary" onClick={openInvoiceModal} disabled={!hasBilling}>
+            <FileText size={14} /> Create Invoice
+          </Button>
+        </div>
+        {hasBilling ? (
+          <>
+            <div className="flex items-center gap-3 mb-1">
+              <DollarSign size={20} className={darkMode ? 'text-gray-400' : 'text-gray-500'} />
+              <span className={`text-3xl font-bold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>{formatMoneyTotals(earnings.totals)}</span>
+            </div>
+            <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {formatDuration(earnings.billableSeconds)} billable · {formatDuration(earnings.unbilledSeconds)} not billed
+            </p>
+            {previousEarnings && (
+              <div className={`flex items-center gap-2 mb-4 text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                {renderDelta(earnings.billableSeconds, previousEarnings.billableSeconds, formatDuration)}
+                <span>billable time · previous period earned {formatMoneyTotals(previousEarnings.totals)}</span>
+              </div>
+            )}
+            <div className="space-y-2">
+              {Object.entries(earnings.projects)
+                .sort(([, a], [, b]) => b.seconds - a.seconds)
+                .map(([projectId, entry]) => (
+                  <div key={projectId} className="flex items-center gap-3 text-sm">
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: resolveProjectColor(entry.color) }}></div>
+                    <span className={`flex-1 truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{entry.name}</span>
+                    <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>{formatDuration(entry.seconds)}</span>
+                    <span className={`font-medium w-28 text-right ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{formatMoneyTotals(entry.totals)}</span>
+                  </div>
+                ))}
+            </div>
+            {hasUnloadedSessions && (
+              <p className={`text-xs mt-4 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                Only loaded sessions are counted. Load older sessions in History to include the rest of the period.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Set an hourly rate on a project to see what your time earns.
+          </p>
+        )}
       </div>
 
       {/* History */}
@@ -1046,20 +1947,46 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
         <div className={`p-6 border-b flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 ${
           darkMode ? 'border-gray-700' : 'border-gray-100'
         }`}>
-          <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>History</h3>
-          <div className="relative">
-             <Filter className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`} size={16} />
-             <input 
-              type="text" 
-              placeholder="Filter by tag..."
-              value={filterTag}
-              onChange={(e) => setFilterTag(e.target.value)}
-              className={`pl-9 pr-4 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 w-full sm:w-64 ${
+          <div className="flex items-center gap-3">
+            <h3 className={`font-bold text-lg ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>History</h3>
+            <Button size="sm" variant="secondary" onClick={openManualEntry} disabled={projects.length === 0}>
+              <Plus size={14} /> Log Time
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsTrashOpen(true)} title="Trash">
+              <Trash2 size={14} /> Trash{trashedSessions.length > 0 ? ` (${trashedSessions.length})` : ''}
+            </Button>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <select
+              value={filterProjectId}
+              onChange={(e) => setFilterProjectId(e.target.value)}
+              className={`px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 w-full sm:w-48 ${
                 darkMode 
-                  ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400 focus:ring-gray-500' 
-                  : 'border-gray-200 focus:ring-gray-200'
+                  ? 'bg-gray-700 border-gray-600 text-gray-100 focus:ring-gray-500' 
+                  : 'bg-white border-gray-200 text-gray-700 focus:ring-gray-200'
               }`}
-             />
+            >
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>
+                  {project.name}{project.archived ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+            <div className="relative">
+               <Filter className={`absolute left-3 top-1/2 transform -translate-y-1/2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`} size={16} />
+               <input 
+                type="text" 
+                placeholder="Filter by tag..."
+                value={filterTag}
+                onChange={(e) => setFilterTag(e.target.value)}
+                className={`pl-9 pr-4 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 w-full sm:w-64 ${
+                  darkMode 
+                    ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400 focus:ring-gray-500' 
+                    : 'border-gray-200 focus:ring-gray-200'
+                }`}
+               />
+            </div>
           </div>
         </div>
         <div className="overflow-x-auto">
@@ -1079,19 +2006,27 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
             </thead>
             <tbody className={darkMode ? 'divide-y divide-gray-700' : 'divide-y divide-gray-100'}>
               {filteredSessions.length > 0 ? filteredSessions.map(session => {
-                const colorTheme = PROJECT_COLORS[session.color] || PROJECT_COLORS.blue;
+                const projectColor = resolveProjectColor(session.color);
                 return (
                   <tr key={session.id} className={`transition-colors group ${
                     darkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50/50'
                   }`}>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-3">
-                        <div className={`w-3 h-3 rounded-full ${colorTheme.primary}`}></div>
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: projectColor }}></div>
                         <span className={`font-medium ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{session.projectName}</span>
+                        {!isBillable(session) && (
+                          <span className={`text-[10px] font-semibold uppercase tracking-wider ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Non-billable</span>
+                        )}
                       </div>
                     </td>
                      <td className={`px-6 py-4 text-sm max-w-[200px] truncate ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                      {session.notes || '-'}
+                      {session.taskId && (
+                        <span className={`font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                          {tasksById[session.taskId]?.title || 'Deleted task'}{session.notes ? ' · ' : ''}
+                        </span>
+                      )}
+                      {session.notes || (session.taskId ? '' : '-')}
                     </td>
                     <td className={`px-6 py-4 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
                       <div className="flex items-center gap-2">
@@ -1127,7 +2062,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                               ? 'bg-gray-700 text-gray-300' 
                               : 'bg-gray-100 text-gray-600'
                           }`}>
-                            <Tag size={10} className="mr-1" />
+                            <Tag size={10} className="mr-1" style={tagColors[tag] ? { color: tagColors[tag] } : undefined} />
                             {tag}
                           </span>
                         ))}
@@ -1158,8 +2093,293 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
             </tbody>
           </table>
         </div>
+        {hasUnloadedSessions && (
+          <div className={`p-4 border-t flex flex-col items-center gap-2 ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            {loadedSince !== null && (
+              <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Showing sessions since {new Date(loadedSince).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              </p>
+            )}
+            <Button size="sm" variant="secondary" onClick={loadOlderSessions} disabled={isLoadingOlderSessions}>
+              {isLoadingOlderSessions ? 'Loading...' : 'Load older sessions'}
+            </Button>
+          </div>
+        )}
       </div>
 
+      {/* Invoice Modal */}
+      <Modal
+        isOpen={isInvoiceOpen}
+        onClose={() => setIsInvoiceOpen(false)}
+        title="Create Invoice"
+        darkMode={darkMode}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Client</label>
+            <select
+              value={invoiceClientId}
+              onChange={(e) => setInvoiceClientId(e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>
+                  {getProjectPath(project.id, projectsById).reverse().map(id => projectsById[id].name).join(' › ')}
+                  {project.archived ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+            <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Includes its sub-projects. Only billable sessions on projects with a rate are listed.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>From</label>
+              <input
+                type="date"
+                value={invoiceFrom}
+                onChange={(e) => setInvoiceFrom(e.target.value)}
+                className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+              />
+            </div>
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>To</label>
+              <input
+                type="date"
+                value={invoiceTo}
+                onChange={(e) => setInvoiceTo(e.target.value)}
+                className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+              />
+            </div>
+          </div>
+          {filterTag && (
+            <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Only sessions matching the tag filter "{filterTag}" are included.
+            </p>
+          )}
+          <div className={`flex justify-end gap-3 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <Button variant="secondary" onClick={() => setIsInvoiceOpen(false)}>Cancel</Button>
+            <Button onClick={openInvoice} disabled={!invoiceClientId || !invoiceRange || invoiceRange.from >= invoiceRange.to || isPreparingInvoice}>
+              <FileText size={14} /> {isPreparingInvoice ? 'Loading sessions...' : <>Open &amp; Print</>}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Trash Modal */}
+      <Modal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        title="Trash"
+        darkMode={darkMode}
+      >
+        <div className="space-y-4">
+          <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Deleted sessions stay here for {TRASH_RETENTION_DAYS} days before they are removed for good.
+          </p>
+          {trashedSessions.length === 0 ? (
+            <p className={`py-8 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              The trash is empty.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {trashedSessions.map(trashed => {
+                const session = withCurrentProject(trashed, projectsById);
+                return (
+                  <div
+                    key={session.id}
+                    className={`flex items-center gap-3 px-4 py-3 rounded-xl border ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                  >
+                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: resolveProjectColor(session.color) }}></div>
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm font-medium truncate ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                        {session.projectName}
+                        {session.notes && <span className={`font-normal ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}> · {session.notes}</span>}
+                      </div>
+                      <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {new Date(session.endTime).toLocaleDateString()} · {formatMinutes(session.durationSeconds / 60)} · deleted {new Date(session.deletedAt!).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Button size="sm" variant="ghost" onClick={() => restoreSession(session)} title="Restore">
+                      <RotateCcw size={14} />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        if (window.confirm("Delete this session for good? This can't be undone.")) {
+                          purgeSession(session.id);
+                        }
+                      }}
+                      title="Delete forever"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className={`flex justify-end gap-3 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <Button
+              variant="danger"
+              onClick={() => {
+                if (window.confirm(`Delete all ${trashedSessions.length} sessions in the trash for good? This can't be undone.`)) {
+                  trashedSessions.forEach(session => purgeSession(session.id));
+                }
+              }}
+              disabled={trashedSessions.length === 0}
+            >
+              Empty Trash
+            </Button>
+            <Button variant="secondary" onClick={() => setIsTrashOpen(false)}>Close</Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Manual Entry Modal */}
+      <Modal
+        isOpen={isManualEntryOpen}
+        onClose={() => setIsManualEntryOpen(false)}
+        title="Log Time"
+        darkMode={darkMode}
+      >
+        <div className="space-y-4">
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Project</label>
+            <select
+              value={manualProjectId}
+              onChange={(e) => setManualProjectId(e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>
+                  {project.name}{project.archived ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Start</label>
+              <input
+                type="datetime-local"
+                value={manualStart}
+                onChange={(e) => setManualStart(e.target.value)}
+                className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                  darkMode 
+                    ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                    : 'border-gray-300'
+                }`}
+              />
+            </div>
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>End</label>
+              <input
+                type="datetime-local"
+                value={manualEnd}
+                max={toDateTimeLocalValue(Date.now())}
+                onChange={(e) => setManualEnd(e.target.value)}
+                className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                  darkMode 
+                    ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                    : 'border-gray-300'
+                }`}
+              />
+            </div>
+          </div>
+          {manualEntryError ? (
+            <p className={`text-xs ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{manualEntryError}</p>
+          ) : (
+            <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Duration: {formatMinutes((fromDateTimeLocalValue(manualEnd) - fromDateTimeLocalValue(manualStart)) / 60000)}
+            </p>
+          )}
+
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Notes</label>
+            <textarea 
+              value={manualNotes}
+              onChange={(e) => setManualNotes(e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none min-h-[80px] ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                  : 'border-gray-300'
+              }`}
+              placeholder="What did you work on?"
+            />
+          </div>
+
+          <div>
+            <label className={`block text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Tags</label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {manualTags.map(tag => (
+                <span key={tag} className={`inline-flex items-center px-2 py-1 rounded-md text-sm font-medium ${
+                  darkMode 
+                    ? 'bg-blue-900/30 text-blue-300' 
+                    : 'bg-blue-50 text-blue-700'
+                }`}>
+                  #{tag}
+                  <button onClick={() => setManualTags(manualTags.filter(t => t !== tag))} className="ml-1 hover:text-red-500">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newManualTag}
+                onChange={(e) => setNewManualTag(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addManualTag()}
+                placeholder="New tag..."
+                className={`flex-1 border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none text-sm ${
+                  darkMode 
+                    ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400' 
+                    : 'border-gray-300'
+                }`}
+              />
+              <Button size="sm" onClick={addManualTag} disabled={!newManualTag.trim()}>
+                <Plus size={16} />
+              </Button>
+            </div>
+          </div>
+
+          <label className={`flex items-center gap-2 text-sm font-medium cursor-pointer ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={manualBillable}
+              onChange={(e) => setManualBillable(e.target.checked)}
+              className="w-4 h-4 rounded"
+            />
+            Billable
+          </label>
+
+          <div className={`flex justify-end gap-3 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <Button variant="secondary" onClick={() => setIsManualEntryOpen(false)}>Cancel</Button>
+            <Button onClick={saveManualEntry} disabled={!!manualEntryError || !manualProjectId || isCheckingRange}>Save Session</Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Edit Session Modal */}
       <Modal
         isOpen={!!editingSession}
@@ -1179,71 +2399,55 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
                   : 'bg-white border-gray-300 text-gray-700'
               }`}
             >
-              {projects.map(project => {
-                const colorTheme = PROJECT_COLORS[project.color];
-                return (
-                  <option key={project.id} value={project.id}>
-                    {project.name}
-                  </option>
-                );
-              })}
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>
+                  {project.name}{project.archived ? ' (archived)' : ''}
+                </option>
+              ))}
             </select>
           </div>
           
-          {/* Duration */}
-           <div>
-             <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Duration (minutes)</label>
-             <div className="flex items-center gap-2">
-               <button
-                 onClick={() => setEditDurationMinutes(Math.max(1, editDurationMinutes - 1))}
-                 className={`px-3 py-2 rounded-lg border transition-all ${
-                   darkMode 
-                     ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600' 
-                     : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
-                 }`}
-               >
-                 -
-               </button>
-               <input
-                 type="number"
-                 min="1"
-                 value={editDurationMinutes}
-                 onChange={(e) => {
-                   const value = parseInt(e.target.value) || 1;
-                   setEditDurationMinutes(Math.max(1, value));
-                 }}
-                 className={`flex-1 border rounded-lg px-3 py-2 text-center focus:ring-2 focus:ring-blue-500 focus:outline-none ${
-                   darkMode 
-                     ? 'bg-gray-700 border-gray-600 text-gray-100' 
-                     : 'border-gray-300'
-                 }`}
-               />
-               <button
-                 onClick={() => setEditDurationMinutes(editDurationMinutes + 1)}
-                 className={`px-3 py-2 rounded-lg border transition-all ${
-                   darkMode 
-                     ? 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600' 
-                     : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
-                 }`}
-               >
-                 +
-               </button>
-             </div>
-             {editingSession && (
-               <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                 Current: {(() => {
-                   const totalMinutes = Math.ceil(editingSession.durationSeconds / 60);
-                   if (totalMinutes < 60) {
-                     return `${totalMinutes} mins`;
-                   } else {
-                     const hours = Math.floor(totalMinutes / 60);
-                     const mins = totalMinutes % 60;
-                     return `${hours}h ${mins}m`;
-                   }
-                 })()}
-               </p>
-             )}
-           </div>
+          {/* Start & End */}
+          <div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Start</label>
+                <input
+                  type="datetime-local"
+                  value={editStart}
+                  onChange={(e) => setEditStart(e.target.value)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    darkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                      : 'border-gray-300'
+                  }`}
+                />
+              </div>
+              <div>
+                <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>End</label>
+                <input
+                  type="datetime-local"
+                  value={editEnd}
+                  max={toDateTimeLocalValue(Date.now())}
+                  onChange={(e) => setEditEnd(e.target.value)}
+                  className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                    darkMode 
+                      ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                      : 'border-gray-300'
+                  }`}
+                />
+              </div>
+            </div>
+            {editRangeError ? (
+              <p className={`text-xs mt-1 ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{editRangeError}</p>
+            ) : editingSession && editedRange && (
+              <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Duration: {editedRange.changed 
+                  ? formatMinutes((editedRange.endTime - editedRange.startTime) / 60000)
+                  : formatMinutes(editingSession.durationSeconds / 60)}
+              </p>
+            )}
+          </div>
 
            <div>
              <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Notes</label>
@@ -1294,9 +2498,128 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
              </div>
            </div>
 
+           <label className={`flex items-center gap-2 text-sm font-medium cursor-pointer ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+             <input
+               type="checkbox"
+               checked={editBillable}
+               onChange={(e) => setEditBillable(e.target.checked)}
+               className="w-4 h-4 rounded"
+             />
+             Billable
+           </label>
+
+          {/* Split & Merge */}
+          <div className={`pt-4 border-t space-y-3 ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="secondary" onClick={() => setIsSplitting(!isSplitting)}>
+                <Scissors size={14} /> Split
+              </Button>
+              {adjacentSessions.previous && (
+                <Button size="sm" variant="secondary" onClick={() => confirmMerge(adjacentSessions.previous!)}>
+                  <Merge size={14} /> Merge with previous
+                </Button>
+              )}
+              {adjacentSessions.next && (
+                <Button size="sm" variant="secondary" onClick={() => confirmMerge(adjacentSessions.next!)}>
+                  <Merge size={14} /> Merge with next
+                </Button>
+              )}
+            </div>
+            {isSplitting && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Split At</label>
+                    <input
+                      type="datetime-local"
+                      value={splitTime}
+                      onChange={(e) => setSplitTime(e.target.value)}
+                      className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                        darkMode 
+                          ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                          : 'border-gray-300'
+                      }`}
+                    />
+                  </div>
+                  <div>
+                    <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Second Part Project</label>
+                    <select
+                      value={splitSecondProjectId}
+                      onChange={(e) => setSplitSecondProjectId(e.target.value)}
+                      className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                        darkMode 
+                          ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                          : 'bg-white border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      {projects.map(project => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}{project.archived ? ' (archived)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className={`text-xs ${splitError ? (darkMode ? 'text-red-400' : 'text-red-600') : (darkMode ? 'text-gray-400' : 'text-gray-500')}`}>
+                  {splitError || 'The first part keeps the project selected above.'}
+                </p>
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={confirmSplit} disabled={!!splitError}>Split Session</Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Edit History */}
+          <div className={`pt-4 border-t space-y-3 ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className={`flex items-center gap-2 text-sm font-medium ${darkMode ? 'text-gray-300 hover:text-gray-100' : 'text-gray-700 hover:text-gray-900'}`}
+            >
+              <History size={14} />
+              Edit History ({sessionHistory.length})
+              {showHistory ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+            {showHistory && (
+              sessionHistory.length === 0 ? (
+                <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>This session hasn't been edited.</p>
+              ) : (
+                <div className="space-y-2">
+                  {sessionHistory.map(change => (
+                    <div key={change.id} className={`rounded-lg px-3 py-2 text-xs ${darkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                          {new Date(change.changedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })} · {change.changedBy.name}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => revertToBeforeChange(change)}
+                          className={`flex items-center gap-1 font-medium ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+                          title="Revert to the version before this change"
+                        >
+                          <RotateCcw size={12} /> Revert
+                        </button>
+                      </div>
+                      <ul className={`space-y-0.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {(Object.keys(change.changes) as TrackedSessionField[]).map(field => (
+                          <li key={field}>
+                            <span className="font-medium">{HISTORY_FIELD_LABELS[field]}:</span>{' '}
+                            {formatHistoryValue(field, change.changes[field]!.from)} → {formatHistoryValue(field, change.changes[field]!.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+
           <div className={`flex justify-end gap-3 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
             <Button variant="danger" onClick={() => {
-              if (editingSession && window.confirm("Are you sure you want to delete this session?")) {
+              // Deleting only moves the session to the trash, so it can be undone without asking first
+              if (editingSession) {
                 deleteSession(editingSession.id);
                 setEditingSession(null);
               }
@@ -1304,7 +2627,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ sessions, projects, update
               Delete Session
             </Button>
             <Button variant="secondary" onClick={() => setEditingSession(null)}>Cancel</Button>
-            <Button onClick={saveEdit}>Save Changes</Button>
+            <Button onClick={saveEdit} disabled={!!editRangeError || isCheckingRange}>Save Changes</Button>
           </div>
         </div>
       </Modal>
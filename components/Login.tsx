@@ -4,7 +4,7 @@ import { Button } from './ui/Button';
 import { Clock, Layout, Zap } from 'lucide-react';
 
 export const Login: React.FC = () => {
-  const { signInWithGoogle } = useAuth();
+  const { signInWithGoogle, continueWithoutAccount } = useAuth();
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-4">
@@ -56,10 +56,18 @@ export const Login: React.FC = () => {
               </svg>
               Sign in with Google
             </Button>
+            <Button
+              variant="ghost"
+              onClick={continueWithoutAccount}
+              className="w-full justify-center"
+            >
+              Continue without an account
+            </Button>
           </div>
           
           <p className="text-xs text-gray-400 mt-4">
             By signing in, you agree to our Terms and Privacy Policy.
+            Without an account, your data stays in this browser only.
           </p>
         </div>
       </div>
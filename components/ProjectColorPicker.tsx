@@ -0,0 +1,55 @@
+import React from 'react';
+import { CheckCircle, Pipette } from 'lucide-react';
+import { ProjectColor } from '../types';
+import { PROJECT_COLOR_PALETTE } from '../constants';
+import { getColorTheme, resolveProjectColor } from '../lib/colors';
+
+interface ProjectColorPickerProps {
+  value: ProjectColor;
+  onChange: (color: string) => void;
+  darkMode?: boolean;
+}
+
+export const ProjectColorPicker: React.FC<ProjectColorPickerProps> = ({ value, onChange, darkMode = false }) => {
+  const selected = resolveProjectColor(value);
+  const isCustom = !PROJECT_COLOR_PALETTE.includes(selected);
+  const selectedRing = `ring-4 ring-offset-2 ${darkMode ? 'ring-gray-600 ring-offset-gray-800' : 'ring-gray-200'} scale-110`;
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {PROJECT_COLOR_PALETTE.map((c) => (
+        <button
+          key={c}
+          type="button"
+          onClick={() => onChange(c)}
+          style={{ backgroundColor: c, color: getColorTheme(c).onPrimary }}
+          className={`
+            w-9 h-9 rounded-full transition-all flex items-center justify-center
+            ${selected === c ? selectedRing : 'hover:scale-105 opacity-80 hover:opacity-100'}
+          `}
+          title={c}
+        >
+          {selected === c && <CheckCircle size={16} />}
+        </button>
+      ))}
+
+      {/* Any other color */}
+      <label
+        style={isCustom ? { backgroundColor: selected, color: getColorTheme(selected).onPrimary } : undefined}
+        className={`
+          relative w-9 h-9 rounded-full transition-all flex items-center justify-center cursor-pointer border-2 border-dashed
+          ${isCustom ? `border-transparent ${selectedRing}` : darkMode ? 'border-gray-500 text-gray-400 hover:scale-105' : 'border-gray-300 text-gray-500 hover:scale-105'}
+        `}
+        title="Custom color"
+      >
+        {isCustom ? <CheckCircle size={16} /> : <Pipette size={16} />}
+        <input
+          type="color"
+          value={selected}
+          onChange={(e) => onChange(e.target.value)}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+    </div>
+  );
+};
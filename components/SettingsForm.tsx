@@ -9,6 +9,38 @@ interface SettingsFormProps {
   darkMode?: boolean;
 }
 
+interface ToggleRowProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onToggle: () => void;
+  darkMode: boolean;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, description, checked, onToggle, darkMode }) => (
+  <div className="flex items-center justify-between">
+    <div>
+      <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{label}</label>
+      <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{description}</p>
+    </div>
+    <button
+      type="button"
+      onClick={onToggle}
+      className={`
+        relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+        ${checked ? 'bg-blue-600' : 'bg-gray-300'}
+      `}
+    >
+      <span
+        className={`
+          inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+          ${checked ? 'translate-x-6' : 'translate-x-1'}
+        `}
+      />
+    </button>
+  </div>
+);
+
 export const SettingsForm: React.FC<SettingsFormProps> = ({ settings, onSave, onCancel, darkMode = false }) => {
   const [formData, setFormData] = React.useState<Settings>(settings);
 
@@ -44,31 +76,90 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ settings, onSave, on
           />
           <p className={`text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Changes will apply to the next session.</p>
         </div>
-      </div>
-
-      <div className="space-y-3">
-        <h3 className={`text-sm font-semibold uppercase tracking-wider ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Appearance</h3>
-        <div className="flex items-center justify-between">
+        <div className="grid grid-cols-3 gap-3">
           <div>
-            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Dark Mode</label>
-            <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Switch to a dark theme for better viewing in low light</p>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Short Break</label>
+            <input 
+              type="number" 
+              value={formData.shortBreakDuration}
+              onChange={(e) => handleChange('shortBreakDuration', Number(e.target.value))}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'border-gray-300'
+              }`}
+              min="1"
+              max="60"
+            />
           </div>
-          <button
-            type="button"
-            onClick={() => handleChange('darkMode', !formData.darkMode)}
-            className={`
-              relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
-              ${formData.darkMode ? 'bg-blue-600' : 'bg-gray-300'}
-            `}
-          >
-            <span
-              className={`
-                inline-block h-4 w-4 transform rounded-full bg-white transition-transform
-                ${formData.darkMode ? 'translate-x-6' : 'translate-x-1'}
-              `}
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Long Break</label>
+            <input 
+              type="number" 
+              value={formData.longBreakDuration}
+              onChange={(e) => handleChange('longBreakDuration', Number(e.target.value))}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'border-gray-300'
+              }`}
+              min="1"
+              max="120"
             />
-          </button>
+          </div>
+          <div>
+            <label className={`block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Rounds</label>
+            <input 
+              type="number" 
+              value={formData.longBreakInterval}
+              onChange={(e) => handleChange('longBreakInterval', Number(e.target.value))}
+              className={`w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+                darkMode 
+                  ? 'bg-gray-700 border-gray-600 text-gray-100' 
+                  : 'border-gray-300'
+              }`}
+              min="1"
+              max="12"
+            />
+          </div>
         </div>
+        <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Break lengths are in minutes. A long break follows every completed set of rounds.</p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className={`text-sm font-semibold uppercase tracking-wider ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Pomodoro Cycle</h3>
+        <ToggleRow
+          label="Auto-start Breaks"
+          description="Start the break as soon as a work round ends"
+          checked={formData.autoStartBreaks}
+          onToggle={() => handleChange('autoStartBreaks', !formData.autoStartBreaks)}
+          darkMode={darkMode}
+        />
+        <ToggleRow
+          label="Auto-start Work"
+          description="Start the next work round as soon as a break ends"
+          checked={formData.autoStartWork}
+          onToggle={() => handleChange('autoStartWork', !formData.autoStartWork)}
+          darkMode={darkMode}
+        />
+        <ToggleRow
+          label="Overtime"
+          description="Keep counting past zero and add the extra time to the session"
+          checked={formData.overtime}
+          onToggle={() => handleChange('overtime', !formData.overtime)}
+          darkMode={darkMode}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className={`text-sm font-semibold uppercase tracking-wider ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Appearance</h3>
+        <ToggleRow
+          label="Dark Mode"
+          description="Switch to a dark theme for better viewing in low light"
+          checked={formData.darkMode}
+          onToggle={() => handleChange('darkMode', !formData.darkMode)}
+          darkMode={darkMode}
+        />
       </div>
 
       <div className={`flex justify-end gap-3 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
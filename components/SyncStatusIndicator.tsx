@@ -0,0 +1,29 @@
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { SyncStatus } from '../types';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  isDarkMode: boolean;
+}
+
+const STATUS_TITLES: Record<SyncStatus, string> = {
+  synced: 'All changes saved',
+  syncing: 'Syncing changes…',
+  offline: 'Offline – changes are saved on this device and will sync when you reconnect',
+};
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, isDarkMode }) => {
+  const tone = status === 'offline'
+    ? (isDarkMode ? 'text-amber-400' : 'text-amber-500')
+    : (isDarkMode ? 'text-gray-500' : 'text-gray-400');
+
+  return (
+    <div className={`p-2 flex items-center gap-1 text-xs font-medium ${tone}`} title={STATUS_TITLES[status]}>
+      {status === 'offline' && <CloudOff size={18} />}
+      {status === 'syncing' && <RefreshCw size={18} className="animate-spin" />}
+      {status === 'synced' && <Cloud size={18} />}
+      {status === 'offline' && <span className="hidden sm:inline">Offline</span>}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { ColorTheme } from '../types';
+import { ColorTheme, TimerPhase } from '../types';
+import { TIMER_PHASE_LABELS } from '../constants';
 
 interface TimerDisplayProps {
   seconds: number; // For pomodoro: time remaining. For stopwatch: time elapsed.
@@ -7,9 +8,11 @@ interface TimerDisplayProps {
   colorTheme: ColorTheme;
   isActive: boolean;
   mode: 'pomodoro' | 'stopwatch';
+  phase?: TimerPhase; // Only used for pomodoro
+  isOvertime?: boolean; // Pomodoro past zero: seconds is the time counted up since
 }
 
-export const TimerDisplay: React.FC<TimerDisplayProps> = ({ seconds, totalTime, colorTheme, isActive, mode }) => {
+export const TimerDisplay: React.FC<TimerDisplayProps> = ({ seconds, totalTime, colorTheme, isActive, mode, phase = 'work', isOvertime = false }) => {
   const minutes = Math.floor(seconds / 60);
   const secs = seconds % 60;
   
@@ -17,7 +20,10 @@ export const TimerDisplay: React.FC<TimerDisplayProps> = ({ seconds, totalTime,
   const circumference = 2 * Math.PI * radius;
   
   let progress = 0;
-  if (mode === 'pomodoro') {
+  if (mode === 'pomodoro' && isOvertime) {
+    // The round is complete, keep the ring full while counting up
+    progress = 1;
+  } else if (mode === 'pomodoro') {
     progress = totalTime > 0 ? (seconds / totalTime) : 0;
   } else {
     // For stopwatch, loop the ring every 60 seconds
@@ -49,25 +55,28 @@ export const TimerDisplay: React.FC<TimerDisplayProps> = ({ seconds, totalTime,
             cx="50%"
             cy="50%"
             r={radius}
-            stroke="currentColor"
+            stroke={colorTheme.ring}
             strokeWidth="8"
             fill="transparent"
             strokeDasharray={circumference}
             strokeDashoffset={dashoffset}
             strokeLinecap="round"
-            className={`transition-all duration-1000 ease-linear ${colorTheme.ring} ${isActive ? 'opacity-100' : 'opacity-90'}`}
+            className={`transition-all duration-1000 ease-linear ${isActive ? 'opacity-100' : 'opacity-90'}`}
           />
         </svg>
         
         {/* Digital Text */}
         <div className="absolute inset-0 flex flex-col items-center justify-center text-center select-none z-20">
-          <span className={`text-5xl sm:text-6xl md:text-7xl font-bold tracking-tight leading-none ${colorTheme.accent} transition-colors duration-300`}>
+          <span className="text-5xl sm:text-6xl md:text-7xl font-bold tracking-tight leading-none transition-colors duration-300" style={{ color: colorTheme.accent }}>
+            {isOvertime && '+'}
             {minutes.toString().padStart(2, '0')}
             <span className="opacity-30 mx-1">:</span>
             {secs.toString().padStart(2, '0')}
           </span>
           <span className={`text-sm font-semibold uppercase tracking-widest mt-4 text-gray-400`}>
-            {mode === 'stopwatch' ? (isActive ? 'Counting Up' : 'Paused') : (isActive ? 'Focusing' : 'Paused')}
+            {mode === 'stopwatch' 
+              ? (isActive ? 'Counting Up' : 'Paused') 
+              : (isActive ? (isOvertime ? 'Overtime' : phase === 'work' ? 'Focusing' : TIMER_PHASE_LABELS[phase]) : 'Paused')}
           </span>
         </div>
       </div>
@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before the toast dismisses itself
+  darkMode?: boolean;
+}
+
+export const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, onDismiss, duration = 6000, darkMode = false }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, duration, onDismiss]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 px-4 w-full max-w-md">
+      <div className={`flex items-center gap-3 rounded-xl shadow-lg px-4 py-3 text-sm animate-in fade-in slide-in-from-bottom-2 duration-200 ${
+        darkMode ? 'bg-gray-100 text-gray-800' : 'bg-gray-800 text-gray-100'
+      }`}>
+        <span className="flex-1">{message}</span>
+        {actionLabel && onAction && (
+          <button
+            onClick={onAction}
+            className={`font-semibold uppercase tracking-wider text-xs ${darkMode ? 'text-blue-600 hover:text-blue-700' : 'text-blue-300 hover:text-blue-200'}`}
+          >
+            {actionLabel}
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className={`p-1 rounded-full transition-colors ${darkMode ? 'text-gray-500 hover:bg-gray-200' : 'text-gray-400 hover:bg-gray-700'}`}
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
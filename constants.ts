@@ -1,50 +1,80 @@
-import { ProjectColor, ColorTheme, Settings, Project } from './types';
-
-export const PROJECT_COLORS: Record<ProjectColor, ColorTheme> = {
-  red: {
-    primary: 'bg-red-500',
-    secondary: 'bg-red-50',
-    ring: 'stroke-red-500',
-    text: 'text-red-900',
-    accent: 'text-red-600'
-  },
-  green: {
-    primary: 'bg-emerald-500',
-    secondary: 'bg-emerald-50',
-    ring: 'stroke-emerald-500',
-    text: 'text-emerald-900',
-    accent: 'text-emerald-600'
-  },
-  purple: {
-    primary: 'bg-purple-600',
-    secondary: 'bg-purple-50',
-    ring: 'stroke-purple-600',
-    text: 'text-purple-900',
-    accent: 'text-purple-700'
-  },
-  blue: {
-    primary: 'bg-blue-500',
-    secondary: 'bg-blue-50',
-    ring: 'stroke-blue-500',
-    text: 'text-blue-900',
-    accent: 'text-blue-600'
-  },
-  yellow: {
-    primary: 'bg-yellow-400',
-    secondary: 'bg-yellow-50',
-    ring: 'stroke-yellow-400',
-    text: 'text-yellow-900',
-    accent: 'text-yellow-700'
-  }
+import { Settings, Project, TagDefinition, TimerPhase } from './types';
+
+// Hex values of the original five named colors, which older projects still store
+export const LEGACY_PROJECT_COLORS: Record<string, string> = {
+  red: '#ef4444',
+  green: '#10b981',
+  purple: '#9333ea',
+  blue: '#3b82f6',
+  yellow: '#eab308'
 };
 
+// Swatches offered when picking a project color; any other hex can be entered too
+export const PROJECT_COLOR_PALETTE = [
+  '#ef4444', '#f97316', '#f59e0b', '#eab308', '#84cc16', '#22c55e',
+  '#10b981', '#14b8a6', '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1',
+  '#8b5cf6', '#9333ea', '#d946ef', '#ec4899', '#f43f5e', '#78716c'
+];
+
 export const DEFAULT_SETTINGS: Settings = {
   timerDuration: 25,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartWork: false,
+  overtime: false,
   darkMode: false,
 };
 
+export const TIMER_PHASE_LABELS: Record<TimerPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break'
+};
+
+// Sessions from the last this-many days are always loaded: the Dashboard heatmap's range,
+// which also covers today's and the last work day's summaries
+export const RECENT_SESSION_DAYS = 71;
+
+// Longest a saved or edited session may be, which bounds how far back an overlapping one can end
+export const MAX_SESSION_HOURS = 24;
+
+// Sessions further apart than this are not offered for merging, so a merge cannot swallow a long gap
+export const MERGE_MAX_GAP_MINUTES = 15;
+
+// Buckets for the session duration histogram, in minutes (min inclusive, max exclusive)
+export const SESSION_DURATION_BUCKETS = [
+  { label: '0-15 min', min: 0, max: 15 },
+  { label: '15-30 min', min: 15, max: 30 },
+  { label: '30-60 min', min: 30, max: 60 },
+  { label: '1-2 hrs', min: 60, max: 120 },
+  { label: '2-4 hrs', min: 120, max: 240 },
+  { label: '4+ hrs', min: 240, max: Infinity }
+];
+
+// Tag charts show the most used tags as their own series and group the rest as "Other"
+export const TAG_CHART_LIMIT = 8;
+
+// Weeks shown in the tag trend chart; fits within the sessions that are always loaded
+export const TAG_TREND_WEEKS = 10;
+
+// History rows fetched per "Load older sessions" click
+export const HISTORY_PAGE_SIZE = 50;
+
+// Trashed sessions are purged for good after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+// Registered for new users as their quick tags
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { id: 'default-code', name: 'code', color: null, quick: true },
+  { id: 'default-design', name: 'design', color: null, quick: true },
+  { id: 'default-planning', name: 'planning', color: null, quick: true },
+  { id: 'default-bugfix', name: 'bugfix', color: null, quick: true }
+];
+
 export const DEFAULT_PROJECTS: Project[] = [
-  { id: 'default-1', name: 'Deep Work', color: 'purple' },
-  { id: 'default-2', name: 'Study', color: 'blue' },
-  { id: 'default-3', name: 'Creative', color: 'yellow' }
+  { id: 'default-1', name: 'Deep Work', color: '#9333ea' },
+  { id: 'default-2', name: 'Study', color: '#3b82f6' },
+  { id: 'default-3', name: 'Creative', color: '#eab308' }
 ];
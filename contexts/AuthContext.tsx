@@ -1,33 +1,71 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import firebase from 'firebase/compat/app';
 import { auth, googleProvider } from '../lib/firebase';
+import * as db from '../services/db';
+import { firestoreBackend } from '../services/storage/firestoreBackend';
+import { indexedDbBackend } from '../services/storage/indexedDbBackend';
+
+// A Google account, or a profile that only exists on this device
+export interface AppUser {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  isLocal: boolean;
+}
 
 interface AuthContextType {
-  user: firebase.User | null;
+  user: AppUser | null;
   loading: boolean;
   error: string | null;
   signInWithGoogle: () => Promise<void>;
   signInWithGoogleRedirect: () => Promise<void>;
+  continueWithoutAccount: () => void;
   logout: () => Promise<void>;
 }
 
+// Remembers that this browser uses local-only storage, so a reload skips the login screen
+const LOCAL_MODE_KEY = 'shadfocus:localMode';
+
+const LOCAL_USER: AppUser = { uid: 'local', displayName: 'This device', photoURL: null, isLocal: true };
+
+const toAppUser = (firebaseUser: firebase.User): AppUser => ({
+  uid: firebaseUser.uid,
+  displayName: firebaseUser.displayName,
+  photoURL: firebaseUser.photoURL,
+  isLocal: false,
+});
+
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
 
 export const useAuth = () => useContext(AuthContext);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<firebase.User | null>(null);
+  const [user, setUser] = useState<AppUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Point services/db at the matching backend before anything subscribes with the new user
+  const switchUser = (nextUser: AppUser | null) => {
+    db.setStorageBackend(nextUser?.isLocal ? indexedDbBackend : firestoreBackend);
+    setUser(nextUser);
+  };
+
   useEffect(() => {
+    if (localStorage.getItem(LOCAL_MODE_KEY)) {
+      switchUser(LOCAL_USER);
+      setLoading(false);
+    }
+
     if (!auth) {
       setLoading(false);
       return;
     }
 
+    // Subscribed in local mode too, so signing in after leaving it still takes effect
     const unsubscribe = auth.onAuthStateChanged((currentUser) => {
-      setUser(currentUser);
+      // Someone in local mode stays in it until they leave it
+      if (localStorage.getItem(LOCAL_MODE_KEY)) return;
+      switchUser(currentUser ? toAppUser(currentUser) : null);
       setLoading(false);
     });
     
@@ -75,7 +113,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const continueWithoutAccount = () => {
+    setError(null);
+    localStorage.setItem(LOCAL_MODE_KEY, 'true');
+    switchUser(LOCAL_USER);
+  };
+
   const logout = async () => {
+    if (user?.isLocal) {
+      // Local data stays in IndexedDB for next time
+      localStorage.removeItem(LOCAL_MODE_KEY);
+      switchUser(null);
+      return;
+    }
     if (auth) {
       try {
         await auth.signOut();
@@ -87,7 +137,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, error, signInWithGoogle, signInWithGoogleRedirect, logout }}>
+    <AuthContext.Provider value={{ user, loading, error, signInWithGoogle, signInWithGoogleRedirect, continueWithoutAccount, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,190 @@
+import { Project, ProjectBilling, Session } from '../types';
+import { getDescendantIds, getProjectPath } from './projects';
+
+// Billing: what sessions earn at their project's hourly rates, and invoices built from them
+
+export const isBillable = (session: Pick<Session, 'billable'>) => session.billable !== false;
+
+// The billing that applies to a project: its own, or the nearest ancestor's
+export const getProjectBilling = (projectId: string, projectsById: Record<string, Project>): ProjectBilling | null => {
+  const billedId = getProjectPath(projectId, projectsById).find(id => projectsById[id]?.billing);
+  return billedId ? projectsById[billedId].billing! : null;
+};
+
+export interface SessionRate {
+  hourlyRate: number;
+  currency: string;
+}
+
+// A tag rate replaces the project rate; with several tag rates on one session the highest applies
+export const getSessionRate = (session: Session, projectsById: Record<string, Project>): SessionRate | null => {
+  const billing = getProjectBilling(session.projectId, projectsById);
+  if (!billing) return null;
+  const tagRates = (session.tags || [])
+    .map(tag => billing.tagRates?.[tag])
+    .filter((rate): rate is number => typeof rate === 'number');
+  return {
+    hourlyRate: tagRates.length > 0 ? Math.max(...tagRates) : billing.hourlyRate,
+    currency: billing.currency
+  };
+};
+
+// What a session earns; null when it is not billable or its project has no rate
+export const getSessionEarnings = (
+  session: Session,
+  projectsById: Record<string, Project>
+): { amount: number; currency: string; hourlyRate: number } | null => {
+  if (!isBillable(session)) return null;
+  const rate = getSessionRate(session, projectsById);
+  if (!rate) return null;
+  return { ...rate, amount: (session.durationSeconds / 3600) * rate.hourlyRate };
+};
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not a currency code the browser knows
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+export const formatMoneyTotals = (totals: Record<string, number>): string =>
+  Object.entries(totals).map(([currency, amount]) => formatMoney(amount, currency)).join(' + ') || formatMoney(0, 'USD');
+
+// --- Earnings ---
+
+export interface EarningsSummary {
+  totals: Record<string, number>; // Amount per currency
+  billableSeconds: number; // Billable sessions on projects with a rate
+  unbilledSeconds: number; // Everything else: non-billable sessions and projects without a rate
+  projects: Record<string, { name: string; color: string; seconds: number; totals: Record<string, number> }>; // Keyed by projectId
+}
+
+export const summarizeEarnings = (sessions: Session[], projectsById: Record<string, Project>): EarningsSummary => {
+  const summary: EarningsSummary = { totals: {}, billableSeconds: 0, unbilledSeconds: 0, projects: {} };
+  sessions.forEach(session => {
+    const earnings = getSessionEarnings(session, projectsById);
+    if (!earnings) {
+      summary.unbilledSeconds += session.durationSeconds;
+      return;
+    }
+    summary.billableSeconds += session.durationSeconds;
+    summary.totals[earnings.currency] = (summary.totals[earnings.currency] || 0) + earnings.amount;
+    const project = summary.projects[session.projectId] ||
+      (summary.projects[session.projectId] = { name: session.projectName, color: session.color, seconds: 0, totals: {} });
+    project.seconds += session.durationSeconds;
+    project.totals[earnings.currency] = (project.totals[earnings.currency] || 0) + earnings.amount;
+  });
+  return summary;
+};
+
+// --- Invoices ---
+
+export interface InvoiceLine {
+  sessionId: string;
+  date: number; // timestamp the session ended
+  projectName: string;
+  notes: string;
+  tags: string[];
+  hours: number;
+  hourlyRate: number;
+  amount: number;
+  currency: string;
+}
+
+export interface Invoice {
+  client: Project;
+  from: number; // timestamp, inclusive
+  to: number; // timestamp, exclusive
+  lines: InvoiceLine[]; // Oldest first
+  totals: Record<string, number>; // Amount per currency
+}
+
+// Billable sessions of the client and its sub-projects that ended within [from, to)
+export const buildInvoice = (
+  client: Project,
+  sessions: Session[],
+  projectsById: Record<string, Project>,
+  from: number,
+  to: number
+): Invoice => {
+  const projectIds = getDescendantIds(client.id, Object.values(projectsById)).add(client.id);
+  const lines: InvoiceLine[] = [];
+  const totals: Record<string, number> = {};
+
+  sessions
+    .filter(s => projectIds.has(s.projectId) && s.endTime >= from && s.endTime < to)
+    .sort((a, b) => a.endTime - b.endTime)
+    .forEach(session => {
+      const earnings = getSessionEarnings(session, projectsById);
+      if (!earnings) return;
+      totals[earnings.currency] = (totals[earnings.currency] || 0) + earnings.amount;
+      lines.push({
+        sessionId: session.id,
+        date: session.endTime,
+        projectName: session.projectName,
+        notes: session.notes || '',
+        tags: session.tags || [],
+        hours: session.durationSeconds / 3600,
+        hourlyRate: earnings.hourlyRate,
+        amount: earnings.amount,
+        currency: earnings.currency
+      });
+    });
+
+  return { client, from, to, lines, totals };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const formatInvoiceDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// A standalone, print-ready page; the browser's print dialog turns it into a PDF
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const period = `${formatInvoiceDate(invoice.from)} – ${formatInvoiceDate(invoice.to - 1)}`;
+  const rows = invoice.lines.map(line => `
+      <tr>
+        <td>${formatInvoiceDate(line.date)}</td>
+        <td>${escapeHtml(line.projectName)}</td>
+        <td>${escapeHtml([line.notes, ...line.tags.map(t => `#${t}`)].filter(Boolean).join(' '))}</td>
+        <td class="num">${line.hours.toFixed(2)}</td>
+        <td class="num">${escapeHtml(formatMoney(line.hourlyRate, line.currency))}</td>
+        <td class="num">${escapeHtml(formatMoney(line.amount, line.currency))}</td>
+      </tr>`).join('');
+  const totalHours = invoice.lines.reduce((sum, line) => sum + line.hours, 0);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Invoice – ${escapeHtml(invoice.client.name)} – ${period}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 40px; }
+    h1 { margin: 0 0 4px; }
+    .meta { color: #6b7280; margin-bottom: 32px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+    th { font-size: 12px; text-transform: uppercase; color: #6b7280; }
+    .num { text-align: right; white-space: nowrap; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+  </style>
+</head>
+<body>
+  <h1>Invoice</h1>
+  <div class="meta">${escapeHtml(invoice.client.name)} · ${period}</div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Project</th><th>Description</th><th class="num">Hours</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows || '<tr><td colspan="6">No billable time in this period.</td></tr>'}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="3">Total</td><td class="num">${totalHours.toFixed(2)}</td><td></td><td class="num">${escapeHtml(formatMoneyTotals(invoice.totals))}</td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>`;
+};
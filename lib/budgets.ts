@@ -0,0 +1,88 @@
+import { BudgetPeriod, DailyRollup, Project } from '../types';
+import { toDateKey } from './rollups';
+import { getDescendantIds, getProjectPath } from './projects';
+
+// Project budgets: how much of a project's time allowance has been used. Time logged on
+// sub-projects counts towards their parents' budgets.
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  total: 'in total',
+  week: 'this week',
+  month: 'this month'
+};
+
+// Hours to one decimal place, e.g. "12.5h"
+export const formatBudgetHours = (seconds: number): string => `${Math.round(seconds / 360) / 10}h`;
+
+// Local midnight the current budget period began; weeks start on Sunday like the heatmap.
+// undefined for a total budget, which covers all time.
+export const getBudgetPeriodStart = (period: BudgetPeriod, now: number): number | undefined => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  switch (period) {
+    case 'week':
+      date.setDate(date.getDate() - date.getDay());
+      return date.getTime();
+    case 'month':
+      date.setDate(1);
+      return date.getTime();
+    case 'total':
+      return undefined;
+  }
+};
+
+// Earliest date key the rollups must reach back to for every budget to be measured;
+// undefined when some budget needs all time
+export const getBudgetRollupsSince = (projects: Project[], now: number): string | undefined => {
+  const starts = projects.filter(p => p.budget).map(p => getBudgetPeriodStart(p.budget!.period, now));
+  if (starts.length === 0) return toDateKey(now);
+  if (starts.some(start => start === undefined)) return undefined;
+  return toDateKey(Math.min(...(starts as number[])));
+};
+
+export interface BudgetUsage {
+  project: Project;
+  budgetSeconds: number;
+  usedSeconds: number; // Recorded sessions only; a running timer is not included
+  periodStart?: number; // undefined for a total budget
+}
+
+export const getBudgetUsage = (
+  project: Project,
+  projects: Project[],
+  rollups: DailyRollup[],
+  now: number
+): BudgetUsage | null => {
+  if (!project.budget || !(project.budget.hours > 0)) return null;
+  const periodStart = getBudgetPeriodStart(project.budget.period, now);
+  const sinceKey = periodStart === undefined ? '' : toDateKey(periodStart);
+  const ids = getDescendantIds(project.id, projects).add(project.id);
+
+  let usedSeconds = 0;
+  rollups.forEach(rollup => {
+    if (rollup.date < sinceKey) return;
+    Object.entries(rollup.projects || {}).forEach(([projectId, totals]) => {
+      if (ids.has(projectId)) usedSeconds += totals.seconds || 0;
+    });
+  });
+
+  return { project, budgetSeconds: project.budget.hours * 3600, usedSeconds, periodStart };
+};
+
+// Usage of every budgeted project, keyed by project id
+export const getBudgetUsages = (projects: Project[], rollups: DailyRollup[], now: number): Record<string, BudgetUsage> => {
+  const usages: Record<string, BudgetUsage> = {};
+  projects.forEach(project => {
+    const usage = getBudgetUsage(project, projects, rollups, now);
+    if (usage) usages[project.id] = usage;
+  });
+  return usages;
+};
+
+// Budgets a timer on `projectId` counts towards: its own and those of its ancestors
+export const getApplicableBudgets = (
+  projectId: string,
+  usages: Record<string, BudgetUsage>,
+  projectsById: Record<string, Project>
+): BudgetUsage[] =>
+  getProjectPath(projectId, projectsById).filter(id => usages[id]).map(id => usages[id]);
@@ -0,0 +1,85 @@
+import { ColorTheme, ProjectColor } from '../types';
+import { LEGACY_PROJECT_COLORS, PROJECT_COLOR_PALETTE } from '../constants';
+
+// Project colors are stored as hex and the rest of a project's theme is derived from them,
+// with text colors adjusted until they are readable on the page background.
+
+type Rgb = [number, number, number];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Page backgrounds text is checked against (white; Tailwind gray-800)
+const LIGHT_BACKGROUND = '#ffffff';
+const DARK_BACKGROUND = '#1f2937';
+
+// WCAG AA for normal text
+const MIN_TEXT_CONTRAST = 4.5;
+
+export const isHexColor = (value: string) => HEX_PATTERN.test(value);
+
+// The hex value of a stored color; projects from before custom colors hold one of five names
+export const resolveProjectColor = (color: ProjectColor | undefined): string => {
+  if (color && isHexColor(color)) return color.toLowerCase();
+  return LEGACY_PROJECT_COLORS[color || 'blue'] || LEGACY_PROJECT_COLORS.blue;
+};
+
+const toRgb = (hex: string): Rgb => {
+  const num = parseInt(hex.slice(1), 16);
+  return [num >> 16, (num >> 8) & 0xff, num & 0xff];
+};
+
+const toHex = ([r, g, b]: Rgb): string =>
+  '#' + [r, g, b].map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+// Blend `amount` (0-1) of `other` into `hex`
+export const mixColors = (hex: string, other: string, amount: number): string => {
+  const a = toRgb(hex);
+  const b = toRgb(other);
+  return toHex([0, 1, 2].map(i => a[i] + (b[i] - a[i]) * amount) as Rgb);
+};
+
+export const lightenColor = (hex: string, amount: number) => mixColors(hex, '#ffffff', amount);
+export const darkenColor = (hex: string, amount: number) => mixColors(hex, '#000000', amount);
+
+const relativeLuminance = (hex: string): number => {
+  const [r, g, b] = toRgb(hex).map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: string, b: string): number => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Step the color towards black (light mode) or white (dark mode) until it reads on the background
+const readableOn = (hex: string, background: string, minContrast: number): string => {
+  const adjust = background === DARK_BACKGROUND ? lightenColor : darkenColor;
+  let color = hex;
+  for (let step = 1; step <= 10 && contrastRatio(color, background) < minContrast; step++) {
+    color = adjust(hex, step / 10);
+  }
+  return color;
+};
+
+export const getColorTheme = (color: ProjectColor | undefined, darkMode = false): ColorTheme => {
+  const primary = resolveProjectColor(color);
+  const background = darkMode ? DARK_BACKGROUND : LIGHT_BACKGROUND;
+  const accent = readableOn(primary, background, MIN_TEXT_CONTRAST);
+  return {
+    primary,
+    onPrimary: contrastRatio('#ffffff', primary) >= contrastRatio('#111827', primary) ? '#ffffff' : '#111827',
+    secondary: darkMode ? mixColors(primary, DARK_BACKGROUND, 0.75) : lightenColor(primary, 0.9),
+    ring: primary,
+    text: darkMode ? lightenColor(accent, 0.3) : darkenColor(accent, 0.4),
+    accent
+  };
+};
+
+// A palette color no existing project uses yet, so new projects are told apart by default
+export const getUnusedPaletteColor = (usedColors: ProjectColor[]): string => {
+  const used = new Set(usedColors.map(resolveProjectColor));
+  return PROJECT_COLOR_PALETTE.find(c => !used.has(c)) || PROJECT_COLOR_PALETTE[usedColors.length % PROJECT_COLOR_PALETTE.length];
+};
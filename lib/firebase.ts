@@ -37,6 +37,11 @@ try {
   auth.useDeviceLanguage();
 
   db = firebase.firestore();
+  
+  // Keep a local copy of the data and queue writes made offline until the connection returns.
+  // Shared between tabs so more than one tab can stay open.
+  db.enablePersistence({ synchronizeTabs: true })
+    .catch((error) => console.warn("Offline persistence unavailable:", error));
   googleProvider = new firebase.auth.GoogleAuthProvider();
 } catch (error) {
   console.warn("Firebase not initialized. Add your config in lib/firebase.ts");
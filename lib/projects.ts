@@ -0,0 +1,100 @@
+import { Project, DailyRollup } from '../types';
+
+// Helpers for projects nested under a parent (e.g. client → project → sub-project)
+
+// Ids from the project itself up to its top-level ancestor. Stops at a parent that no longer
+// exists, and at a cycle should one ever be stored.
+export const getProjectPath = (projectId: string, projectsById: Record<string, Project>): string[] => {
+  const path = [projectId];
+  let parentId = projectsById[projectId]?.parentId;
+  while (parentId && projectsById[parentId] && !path.includes(parentId)) {
+    path.push(parentId);
+    parentId = projectsById[parentId].parentId;
+  }
+  return path;
+};
+
+export const getDescendantIds = (projectId: string, projects: Project[]): Set<string> => {
+  const descendants = new Set<string>();
+  let frontier = [projectId];
+  while (frontier.length > 0) {
+    const children = projects.filter(p => p.parentId && frontier.includes(p.parentId) && !descendants.has(p.id));
+    children.forEach(p => descendants.add(p.id));
+    frontier = children.map(p => p.id);
+  }
+  return descendants;
+};
+
+// Projects another one may be moved under: anything but itself and its own descendants
+export const getParentOptions = (project: Project | null, projects: Project[]): Project[] => {
+  if (!project) return projects;
+  const descendants = getDescendantIds(project.id, projects);
+  return projects.filter(p => p.id !== project.id && !descendants.has(p.id));
+};
+
+export interface ProjectTreeNode {
+  project: Project;
+  depth: number;
+  hasChildren: boolean;
+}
+
+// Depth-first order for a tree view, leaving out the children of collapsed projects.
+// Projects whose parent is not in `projects` (deleted, archived) show at the top level.
+export const flattenProjectTree = (projects: Project[], collapsedIds: Set<string>): ProjectTreeNode[] => {
+  const ids = new Set(projects.map(p => p.id));
+  const childrenOf = (parentId: string | null) =>
+    projects.filter(p => (p.parentId && ids.has(p.parentId) ? p.parentId : null) === parentId);
+
+  const nodes: ProjectTreeNode[] = [];
+  const visit = (project: Project, depth: number, ancestors: Set<string>) => {
+    const children = childrenOf(project.id).filter(child => !ancestors.has(child.id));
+    nodes.push({ project, depth, hasChildren: children.length > 0 });
+    if (collapsedIds.has(project.id)) return;
+    const path = new Set(ancestors).add(project.id);
+    children.forEach(child => visit(child, depth + 1, path));
+  };
+  childrenOf(null).forEach(project => visit(project, 0, new Set()));
+  return nodes;
+};
+
+// --- Roll-ups ---
+
+// Which project a project's time is shown under when looking at the children of `rootId`
+// (the top level when null): the ancestor one level below the root, or the root itself for
+// time logged on it directly. null when the project is outside the root's branch.
+export const getProjectGroup = (
+  projectId: string,
+  rootId: string | null,
+  projectsById: Record<string, Project>
+): string | null => {
+  const path = getProjectPath(projectId, projectsById);
+  if (rootId === null) return path[path.length - 1];
+  const index = path.indexOf(rootId);
+  if (index === -1) return null;
+  return index === 0 ? rootId : path[index - 1];
+};
+
+// Fold a rollup's per-project totals into the groups below `rootId`. Time logged on the root
+// itself gets its own entry, labelled so it is not mistaken for the whole branch.
+export const groupRollupProjects = (
+  projects: DailyRollup['projects'],
+  rootId: string | null,
+  projectsById: Record<string, Project>
+): DailyRollup['projects'] => {
+  const grouped: DailyRollup['projects'] = {};
+  Object.entries(projects).forEach(([projectId, totals]) => {
+    const groupId = getProjectGroup(projectId, rootId, projectsById);
+    if (groupId === null) return;
+    const group = projectsById[groupId];
+    const name = group ? group.name : totals.name;
+    if (!grouped[groupId]) {
+      grouped[groupId] = {
+        name: groupId === rootId ? `${name} (direct)` : name,
+        color: group ? group.color : totals.color,
+        seconds: 0
+      };
+    }
+    grouped[groupId].seconds += totals.seconds;
+  });
+  return grouped;
+};
@@ -0,0 +1,119 @@
+import { DailyRollup, Project, ProjectColor, Session } from '../types';
+import { SESSION_DURATION_BUCKETS } from '../constants';
+
+// Daily rollups: per-day totals by project and tag, maintained alongside session writes
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Local calendar date of a timestamp as YYYY-MM-DD
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Midnight (local time) at the start of a YYYY-MM-DD date
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Index into SESSION_DURATION_BUCKETS
+export const getDurationBucket = (durationSeconds: number): number => {
+  const minutes = durationSeconds / 60;
+  const index = SESSION_DURATION_BUCKETS.findIndex(b => minutes >= b.min && minutes < b.max);
+  return index === -1 ? SESSION_DURATION_BUCKETS.length - 1 : index;
+};
+
+// What one session adds to the rollup of the day it ended on
+export interface RollupContribution {
+  dateKey: string;
+  seconds: number;
+  projectId: string;
+  projectName: string;
+  color: ProjectColor;
+  tags: string[];
+  bucket: number;
+}
+
+export const getRollupContribution = (session: Session): RollupContribution => ({
+  dateKey: toDateKey(session.endTime),
+  seconds: session.durationSeconds,
+  projectId: session.projectId || 'unknown',
+  projectName: session.projectName || 'Unknown',
+  color: session.color,
+  tags: Array.from(new Set((session.tags || []).filter(Boolean))),
+  bucket: getDurationBucket(session.durationSeconds),
+});
+
+export const emptyRollup = (dateKey: string): DailyRollup => ({
+  id: dateKey,
+  date: dateKey,
+  totalSeconds: 0,
+  sessionCount: 0,
+  projects: {},
+  tags: {},
+  durationBuckets: {},
+});
+
+// Fold sessions into one rollup per day, oldest day first
+export const buildDailyRollups = (sessions: Session[]): DailyRollup[] => {
+  const byDate: Record<string, DailyRollup> = {};
+  sessions.forEach(session => {
+    const c = getRollupContribution(session);
+    const rollup = byDate[c.dateKey] || (byDate[c.dateKey] = emptyRollup(c.dateKey));
+    rollup.totalSeconds += c.seconds;
+    rollup.sessionCount += 1;
+    const project = rollup.projects[c.projectId] || (rollup.projects[c.projectId] = { name: c.projectName, color: c.color, seconds: 0 });
+    project.seconds += c.seconds;
+    c.tags.forEach(tag => {
+      rollup.tags[tag] = (rollup.tags[tag] || 0) + c.seconds;
+    });
+    rollup.durationBuckets[c.bucket] = (rollup.durationBuckets[c.bucket] || 0) + 1;
+  });
+  return Object.values(byDate).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Whether a timestamp is local midnight
+export const isStartOfDay = (timestamp: number) => fromDateKey(toDateKey(timestamp)).getTime() === timestamp;
+
+// Rollups for sessions that ended within [start, end). Rollups are per day, so a range that
+// starts or ends mid-day takes in that whole day; use sessions where the part of a day matters.
+export const getRollupsInRange = (rollups: DailyRollup[], start?: number, end?: number): DailyRollup[] => {
+  const startKey = start === undefined ? '' : toDateKey(start);
+  const endKey = end === undefined ? undefined : toDateKey(end);
+  const includesEndDay = end !== undefined && !isStartOfDay(end);
+  return rollups.filter(r => r.date >= startKey && (endKey === undefined || r.date < endKey || (includesEndDay && r.date === endKey)));
+};
+
+// Add a set of daily rollups (oldest first) together into a single total
+export const sumRollups = (rollups: DailyRollup[]): DailyRollup => {
+  const total = emptyRollup('');
+  rollups.forEach(rollup => {
+    total.totalSeconds += rollup.totalSeconds || 0;
+    total.sessionCount += rollup.sessionCount || 0;
+    Object.entries(rollup.projects || {}).forEach(([projectId, project]) => {
+      const existing = total.projects[projectId] || (total.projects[projectId] = { ...project, seconds: 0 });
+      existing.seconds += project.seconds || 0;
+      // Rollups come oldest first, so the most recent name and color win
+      if (project.name) existing.name = project.name;
+      if (project.color) existing.color = project.color;
+    });
+    Object.entries(rollup.tags || {}).forEach(([tag, seconds]) => {
+      total.tags[tag] = (total.tags[tag] || 0) + seconds;
+    });
+    Object.entries(rollup.durationBuckets || {}).forEach(([bucket, count]) => {
+      total.durationBuckets[bucket] = (total.durationBuckets[bucket] || 0) + count;
+    });
+  });
+  return total;
+};
+
+// Rollups keep each project's name and color as of its last session; prefer the current ones
+export const withCurrentProjects = (rollup: DailyRollup, projectsById: Record<string, Project>): DailyRollup => {
+  const projects: DailyRollup['projects'] = {};
+  Object.entries(rollup.projects || {}).forEach(([projectId, entry]) => {
+    const project = projectsById[projectId];
+    projects[projectId] = project ? { ...entry, name: project.name, color: project.color } : entry;
+  });
+  return { ...rollup, projects };
+};
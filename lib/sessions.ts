@@ -0,0 +1,315 @@
+import { Session, AnalyticsPeriod, DateRange, Project, TrackedSessionField, SessionFieldChanges, SessionChange } from '../types';
+import { RECENT_SESSION_DAYS, TRASH_RETENTION_DAYS, MERGE_MAX_GAP_MINUTES, MAX_SESSION_HOURS } from '../constants';
+import { fromDateKey } from './rollups';
+
+// Helpers for validating session time ranges entered by hand (manual entry, edits, splits)
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Format a timestamp for an <input type="datetime-local"> in local time
+export const toDateTimeLocalValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Parse an <input type="datetime-local"> value (local time); NaN when empty or invalid
+export const fromDateTimeLocalValue = (value: string): number => {
+  if (!value) return NaN;
+  return new Date(value).getTime();
+};
+
+// Sessions whose [startTime, endTime) range intersects the given one
+export const findOverlappingSessions = (
+  sessions: Session[],
+  startTime: number,
+  endTime: number,
+  excludeIds: string[] = []
+): Session[] => {
+  return sessions.filter(s =>
+    !excludeIds.includes(s.id) &&
+    s.startTime < endTime &&
+    s.endTime > startTime
+  );
+};
+
+// Returns an error message for an invalid range, or null when it can be saved
+export const validateSessionRange = (
+  startTime: number,
+  endTime: number,
+  sessions: Session[],
+  now: number,
+  excludeIds: string[] = []
+): string | null => {
+  if (isNaN(startTime) || isNaN(endTime)) return 'Enter both a start and an end time.';
+  if (endTime <= startTime) return 'The end time must be after the start time.';
+  if (endTime > now) return 'The end time cannot be in the future.';
+  if (endTime - startTime > MAX_SESSION_HOURS * 60 * 60 * 1000) return `A session can be at most ${MAX_SESSION_HOURS} hours long.`;
+
+  const overlapping = findOverlappingSessions(sessions, startTime, endTime, excludeIds);
+  if (overlapping.length > 0) {
+    const first = overlapping[0];
+    const time = (ts: number) => new Date(ts).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+    const others = overlapping.length > 1 ? ` and ${overlapping.length - 1} more` : '';
+    return `Overlaps ${first.projectName} (${new Date(first.startTime).toLocaleDateString()} ${time(first.startTime)}–${time(first.endTime)})${others}.`;
+  }
+
+  return null;
+};
+
+// Cut a session at `splitTime` into two; the first part keeps the original id.
+// Running time is shared out in proportion to each part's share of the interval.
+// Only the first part keeps the timer mode, so a split pomodoro still counts once.
+export const splitSessionAt = (
+  session: Session,
+  splitTime: number,
+  firstProject: Pick<Session, 'projectId' | 'projectName' | 'color'>,
+  secondProject: Pick<Session, 'projectId' | 'projectName' | 'color'>
+): [Session, Session] => {
+  const fraction = (splitTime - session.startTime) / (session.endTime - session.startTime);
+  const firstDuration = Math.round(session.durationSeconds * fraction);
+
+  const { mode, ...untimed } = session;
+  return [
+    {
+      ...session,
+      ...firstProject,
+      endTime: splitTime,
+      durationSeconds: firstDuration
+    },
+    {
+      ...untimed,
+      ...secondProject,
+      id: crypto.randomUUID(),
+      startTime: splitTime,
+      durationSeconds: session.durationSeconds - firstDuration
+    }
+  ];
+};
+
+// The sessions directly before and after the given one in time, when close enough to merge with
+export const getAdjacentSessions = (sessions: Session[], session: Session): { previous?: Session; next?: Session } => {
+  const ordered = [...sessions].sort((a, b) => a.startTime - b.startTime);
+  const index = ordered.findIndex(s => s.id === session.id);
+  if (index === -1) return {};
+  const maxGap = MERGE_MAX_GAP_MINUTES * 60 * 1000;
+  const previous = ordered[index - 1];
+  const next = ordered[index + 1];
+  return {
+    previous: previous && session.startTime - previous.endTime <= maxGap ? previous : undefined,
+    next: next && next.startTime - session.endTime <= maxGap ? next : undefined,
+  };
+};
+
+// Combine two sessions into one spanning both; it keeps the id and project of `primary`.
+// Only tracked time is added up, so a gap between them is not counted.
+export const mergeSessionPair = (primary: Session, other: Session): Session => {
+  const notes = [primary.notes, other.notes].filter(Boolean);
+  return {
+    ...primary,
+    startTime: Math.min(primary.startTime, other.startTime),
+    endTime: Math.max(primary.endTime, other.endTime),
+    durationSeconds: primary.durationSeconds + other.durationSeconds,
+    notes: Array.from(new Set(notes)).join('; '),
+    tags: Array.from(new Set([...(primary.tags || []), ...(other.tags || [])]))
+  };
+};
+
+// --- Analytics periods ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+// Same local time of day, `days` days later (or earlier)
+const addDays = (timestamp: number, days: number) => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// Same local time, `months` months later (or earlier); the day is clamped to the target month's length
+const addMonths = (timestamp: number, months: number) => {
+  const date = new Date(timestamp);
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  date.setDate(Math.min(day, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+  return date.getTime();
+};
+
+// Sunday, like the heatmap and budgets
+const startOfWeek = (timestamp: number) => addDays(startOfDay(timestamp), -new Date(timestamp).getDay());
+
+const startOfMonth = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const isCustomPeriod = (period: AnalyticsPeriod): period is DateRange => typeof period === 'object';
+
+// Sessions belong to a period when their endTime is within [start, end).
+// start is undefined for all time; end is undefined while the period is still running.
+export interface PeriodRange {
+  start?: number;
+  end?: number;
+}
+
+export const isInPeriod = (timestamp: number, range: PeriodRange) =>
+  (range.start === undefined || timestamp >= range.start) && (range.end === undefined || timestamp < range.end);
+
+export const getPeriodRange = (period: AnalyticsPeriod, now: number): PeriodRange => {
+  if (isCustomPeriod(period)) {
+    return { start: fromDateKey(period.from).getTime(), end: addDays(fromDateKey(period.to).getTime(), 1) };
+  }
+  switch (period) {
+    case 'day': return { start: startOfDay(now) };
+    case 'last7days': return { start: now - 7 * DAY_MS };
+    case 'last30days': return { start: now - 30 * DAY_MS };
+    case 'thisWeek': return { start: startOfWeek(now) };
+    case 'lastWeek': return { start: addDays(startOfWeek(now), -7), end: startOfWeek(now) };
+    case 'thisMonth': return { start: startOfMonth(now) };
+    case 'lastMonth': return { start: addMonths(startOfMonth(now), -1), end: startOfMonth(now) };
+    case 'thisQuarter': return { start: addMonths(startOfMonth(now), -(new Date(now).getMonth() % 3)) };
+    case 'yearToDate': return { start: new Date(new Date(now).getFullYear(), 0, 1).getTime() };
+    case 'all': return {};
+  }
+};
+
+// The equivalent period just before, to compare against: the day, week, month, quarter or year
+// before, or as many days before for rolling windows and custom ranges. A period that is still
+// running is compared with the previous one up to the same point, e.g. this week so far with
+// last week up to the same weekday and time. null for all time.
+export const getPreviousPeriodRange = (period: AnalyticsPeriod, now: number): PeriodRange | null => {
+  const range = getPeriodRange(period, now);
+  if (range.start === undefined) return null;
+
+  let shift: (timestamp: number) => number;
+  if (isCustomPeriod(period)) {
+    const days = Math.round((range.end! - range.start) / DAY_MS);
+    shift = t => addDays(t, -days);
+  } else {
+    switch (period) {
+      case 'day': shift = t => addDays(t, -1); break;
+      case 'last7days': shift = t => t - 7 * DAY_MS; break;
+      case 'last30days': shift = t => t - 30 * DAY_MS; break;
+      case 'thisWeek':
+      case 'lastWeek': shift = t => addDays(t, -7); break;
+      case 'thisMonth':
+      case 'lastMonth': shift = t => addMonths(t, -1); break;
+      case 'thisQuarter': shift = t => addMonths(t, -3); break;
+      case 'yearToDate': shift = t => addMonths(t, -12); break;
+      default: return null;
+    }
+  }
+  return { start: shift(range.start), end: shift(range.end ?? now) };
+};
+
+// Earliest time the Dashboard's figures reach back to: the recent days it always shows, extended
+// back to the start of the selected period, or of the previous one when comparing
+export const getAnalyticsStart = (period: AnalyticsPeriod, now: number, compare = false): number => {
+  const recentStart = startOfDay(now) - (RECENT_SESSION_DAYS - 1) * DAY_MS;
+  const periodStart = (compare && getPreviousPeriodRange(period, now)?.start) || getPeriodRange(period, now).start;
+  return periodStart === undefined ? recentStart : Math.min(recentStart, periodStart);
+};
+
+// Start of the window of sessions kept live: the recent days the Dashboard always shows, extended
+// back to the start of a preset period (a year at most). A custom range can start any time, so it
+// is read once instead (see getSessionRangesToFetch).
+export const getLiveSessionsStart = (period: AnalyticsPeriod, now: number): number => {
+  const recentStart = startOfDay(now) - (RECENT_SESSION_DAYS - 1) * DAY_MS;
+  const periodStart = isCustomPeriod(period) ? undefined : getPeriodRange(period, now).start;
+  return periodStart === undefined ? recentStart : Math.min(recentStart, periodStart);
+};
+
+// Sessions the Dashboard needs from before the live window, as [start, end) ranges to read once:
+// a custom range, and while comparing a period that is still running, the previous period's last
+// day, which ends mid-day and so can't come from its daily rollup
+export const getSessionRangesToFetch = (
+  period: AnalyticsPeriod,
+  now: number,
+  compare: boolean,
+  liveStart: number
+): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  const range = getPeriodRange(period, now);
+  if (isCustomPeriod(period) && range.start! < liveStart) {
+    ranges.push({ start: range.start!, end: Math.min(range.end!, liveStart) });
+  }
+  const previous = compare ? getPreviousPeriodRange(period, now) : null;
+  if (previous?.end !== undefined && startOfDay(previous.end) < Math.min(previous.end, liveStart)) {
+    ranges.push({ start: startOfDay(previous.end), end: Math.min(previous.end, liveStart) });
+  }
+  return ranges;
+};
+
+// --- Project display ---
+
+// Sessions keep a copy of their project's name and color from when they were recorded.
+// Show the project's current ones instead; the copy only matters once the project is gone.
+export const withCurrentProject = <T extends Pick<Session, 'projectId' | 'projectName' | 'color'>>(
+  session: T,
+  projectsById: Record<string, Project>
+): T => {
+  const project = projectsById[session.projectId];
+  if (!project || (project.name === session.projectName && project.color === session.color)) return session;
+  return { ...session, projectName: project.name, color: project.color };
+};
+
+// --- Trash ---
+
+export const isTrashed = (session: Session) => !!session.deletedAt;
+
+// Trashed sessions older than this are purged
+export const getTrashCutoff = (now: number) => now - TRASH_RETENTION_DAYS * DAY_MS;
+
+// --- History ---
+
+export const TRACKED_SESSION_FIELDS: TrackedSessionField[] = ['projectId', 'startTime', 'endTime', 'durationSeconds', 'notes', 'tags', 'billable'];
+
+const sameValue = (a: unknown, b: unknown) =>
+  Array.isArray(a) && Array.isArray(b) ? a.length === b.length && a.every((v, i) => v === b[i]) : a === b;
+
+// Older sessions may lack notes, tags or the billable flag; treat those as their defaults so they
+// never show up as edits
+const trackedValue = (session: Session, field: TrackedSessionField) => {
+  if (field === 'notes') return session.notes || '';
+  if (field === 'tags') return session.tags || [];
+  if (field === 'billable') return session.billable !== false;
+  return session[field];
+};
+
+// The tracked fields that differ between two versions of a session
+export const diffSessions = (before: Session, after: Session): SessionFieldChanges => {
+  const changes: SessionFieldChanges = {};
+  TRACKED_SESSION_FIELDS.forEach(field => {
+    const from = trackedValue(before, field);
+    const to = trackedValue(after, field);
+    if (!sameValue(from, to)) {
+      (changes as Record<string, { from: unknown; to: unknown }>)[field] = { from, to };
+    }
+  });
+  return changes;
+};
+
+// The session as it was just before `changeId`, undoing that change and every later one.
+// `history` is newest first; the project's name and color are looked up again for its id.
+export const sessionBeforeChange = (
+  session: Session,
+  history: SessionChange[],
+  changeId: string,
+  projectsById: Record<string, Project>
+): Session => {
+  const index = history.findIndex(c => c.id === changeId);
+  if (index === -1) return session;
+
+  const reverted: Session = { ...session };
+  history.slice(0, index + 1).forEach(change => {
+    Object.entries(change.changes).forEach(([field, value]) => {
+      (reverted as unknown as Record<string, unknown>)[field] = value.from;
+    });
+  });
+  return withCurrentProject(reverted, projectsById);
+};
@@ -0,0 +1,156 @@
+import { DailyRollup, Project, Session, TagDefinition } from '../types';
+import { PROJECT_COLOR_PALETTE } from '../constants';
+import { toDateKey } from './rollups';
+
+// Tags are stored by name on sessions, timers and project settings. These helpers rename
+// (to another name, or onto an existing tag to merge them) or remove (`to` null) one tag.
+
+// Tag list with `tag` replaced by `to`, or dropped when `to` is null; never lists a tag twice
+export const replaceTag = (tags: string[], tag: string, to: string | null): string[] => {
+  const replaced = tags.flatMap(t => t === tag ? (to === null ? [] : [to]) : [t]);
+  return Array.from(new Set(replaced));
+};
+
+// Updates that apply the change to a project's timer default tags and tag rates; null if it
+// uses neither. When merging, a rate the target tag already has is kept.
+export const retagProject = (project: Project, tag: string, to: string | null): Partial<Project> | null => {
+  const updates: Partial<Project> = {};
+
+  const defaultTags = project.timerDefaults?.tags;
+  if (defaultTags?.includes(tag)) {
+    updates.timerDefaults = { ...project.timerDefaults, tags: replaceTag(defaultTags, tag, to) };
+  }
+
+  const tagRates = project.billing?.tagRates;
+  if (tagRates && tag in tagRates) {
+    const { [tag]: rate, ...otherRates } = tagRates;
+    if (to !== null && !(to in otherRates)) otherRates[to] = rate;
+    const { tagRates: _, ...billing } = project.billing!;
+    updates.billing = Object.keys(otherRates).length > 0 ? { ...billing, tagRates: otherRates } : billing;
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+};
+
+// The registry after renaming `tag` to `to`. Merging keeps the target's entry, filling in its
+// color from the merged tag if it has none, and keeps it quick if either one was.
+export const renameInRegistry = (registry: TagDefinition[], tag: string, to: string): TagDefinition[] => {
+  const source = registry.find(t => t.name === tag);
+  if (!source) return registry;
+  const target = registry.find(t => t.name === to);
+  if (!target) return registry.map(t => t === source ? { ...t, name: to } : t);
+  return registry
+    .filter(t => t !== source)
+    .map(t => t === target ? { ...t, color: t.color || source.color || null, quick: !!(t.quick || source.quick) } : t);
+};
+
+// Registry entries that were added, changed or removed between two versions
+export const diffRegistry = (before: TagDefinition[], after: TagDefinition[]) => {
+  const beforeById = new Map(before.map(t => [t.id, t]));
+  const afterIds = new Set(after.map(t => t.id));
+  return {
+    changed: after.filter(t => {
+      const previous = beforeById.get(t.id);
+      return !previous || previous.name !== t.name || previous.color !== t.color || previous.quick !== t.quick;
+    }),
+    removedIds: before.filter(t => !afterIds.has(t.id)).map(t => t.id)
+  };
+};
+
+export const normalizeTagName = (name: string) => name.trim();
+
+// Every tag the user has: registered ones, and any others still found on sessions or in rollups
+export const getKnownTags = (registry: TagDefinition[], sessions: Session[], rollups: DailyRollup[]): string[] => {
+  const names = new Set(registry.map(t => t.name));
+  sessions.forEach(s => (s.tags || []).forEach(tag => names.add(tag)));
+  rollups.forEach(r => Object.entries(r.tags || {}).forEach(([tag, seconds]) => {
+    if (seconds > 0) names.add(tag);
+  }));
+  return Array.from(names).filter(Boolean).sort((a, b) => a.localeCompare(b));
+};
+
+// Registered colors by tag name
+export const getTagColors = (registry: TagDefinition[]): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  registry.forEach(t => {
+    if (t.color) colors[t.name] = t.color;
+  });
+  return colors;
+};
+
+// --- Analytics ---
+// A session with several tags counts towards each of them, so tag totals can add up to more
+// than the time tracked.
+
+export interface TagTotal {
+  tag: string;
+  seconds: number;
+}
+
+// Time per tag, most used first. Renamed or removed tags leave zero entries in rollups; those are skipped.
+export const getTagTotals = (rollup: DailyRollup): TagTotal[] =>
+  Object.entries(rollup.tags || {})
+    .filter(([tag, seconds]) => tag && seconds > 0)
+    .map(([tag, seconds]) => ({ tag, seconds }))
+    .sort((a, b) => b.seconds - a.seconds);
+
+export interface TagPair {
+  tags: [string, string]; // Alphabetical
+  seconds: number;
+  sessionCount: number;
+}
+
+// Tags used together on the same session, most time together first
+export const getTagCooccurrence = (sessions: Session[]): TagPair[] => {
+  const pairs = new Map<string, TagPair>();
+  sessions.forEach(session => {
+    const tags = Array.from(new Set((session.tags || []).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+    tags.forEach((a, i) => tags.slice(i + 1).forEach(b => {
+      const key = JSON.stringify([a, b]);
+      const pair = pairs.get(key) || { tags: [a, b] as [string, string], seconds: 0, sessionCount: 0 };
+      pair.seconds += session.durationSeconds;
+      pair.sessionCount += 1;
+      pairs.set(key, pair);
+    }));
+  });
+  return Array.from(pairs.values()).sort((a, b) => b.seconds - a.seconds);
+};
+
+export interface WeeklyTagTotals {
+  weekStart: string; // Date key of the Sunday the week starts on, like the heatmap
+  tags: Record<string, number>; // Seconds per tag
+}
+
+// Time per tag for each of the last `weeks` weeks, oldest first; weeks without time are included
+export const getWeeklyTagTotals = (rollups: DailyRollup[], weeks: number, now: number): WeeklyTagTotals[] => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay() - (weeks - 1) * 7);
+
+  const result: WeeklyTagTotals[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * 7);
+    result.push({ weekStart: toDateKey(weekStart.getTime()), tags: {} });
+  }
+
+  rollups.forEach(rollup => {
+    if (rollup.date < result[0].weekStart) return;
+    const week = [...result].reverse().find(w => w.weekStart <= rollup.date)!;
+    Object.entries(rollup.tags || {}).forEach(([tag, seconds]) => {
+      if (tag && seconds > 0) week.tags[tag] = (week.tags[tag] || 0) + seconds;
+    });
+  });
+  return result;
+};
+
+// Chart colors by tag: registered colors, with palette colors handed out in order to the rest
+export const getTagChartColors = (tags: string[], tagColors: Record<string, string>): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  const unused = PROJECT_COLOR_PALETTE.filter(c => !Object.values(tagColors).includes(c));
+  const palette = unused.length > 0 ? unused : PROJECT_COLOR_PALETTE;
+  let next = 0;
+  tags.forEach(tag => {
+    colors[tag] = tagColors[tag] || palette[next++ % palette.length];
+  });
+  return colors;
+};
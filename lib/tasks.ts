@@ -0,0 +1,53 @@
+import { Session, Task, TaskStatus } from '../types';
+
+// Tasks within projects, and the time logged against them
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  'in-progress': 'In progress',
+  done: 'Done'
+};
+
+// A project's tasks in the order they were added; finished ones only when asked for
+export const getProjectTasks = (tasks: Task[], projectId: string, includeDone = false): Task[] =>
+  tasks
+    .filter(t => t.projectId === projectId && (includeDone || t.status !== 'done'))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export interface TaskStats {
+  taskId: string;
+  task: Task | null; // null once the task has been deleted
+  seconds: number;
+  pomodoros: number;
+}
+
+// Time per task in the sessions passed in, most worked on first. Pomodoros are the task's own
+// count of every work round finished on it, so they don't depend on which sessions are loaded.
+export const getTaskStats = (sessions: Session[], tasks: Task[]): TaskStats[] => {
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const stats = new Map<string, TaskStats>();
+  sessions.forEach(session => {
+    if (!session.taskId) return;
+    let entry = stats.get(session.taskId);
+    if (!entry) {
+      const task = tasksById.get(session.taskId) || null;
+      entry = { taskId: session.taskId, task, seconds: 0, pomodoros: task?.pomodoros || 0 };
+      stats.set(session.taskId, entry);
+    }
+    entry.seconds += session.durationSeconds;
+  });
+  return Array.from(stats.values()).sort((a, b) => b.seconds - a.seconds);
+};
+
+// Whether a saved session is a finished pomodoro work round on a task
+export const isTaskPomodoro = (session: Session) => !!session.taskId && session.mode === 'pomodoro';
+
+// Pomodoros per task id, counted from every session; for tasks that predate the stored count.
+// Every work round was saved as a session of its own, so merges since then may have lost some.
+export const countTaskPomodoros = (sessions: Session[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  sessions.filter(isTaskPomodoro).forEach(session => {
+    counts[session.taskId!] = (counts[session.taskId!] || 0) + 1;
+  });
+  return counts;
+};
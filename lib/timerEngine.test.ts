@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ActiveTimer, Settings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { createTimerEngine, NewTimer } from './timerEngine';
+
+const MINUTE = 60 * 1000;
+const project = { id: 'project-1', name: 'Deep Work' };
+const settings: Settings = { ...DEFAULT_SETTINGS, timerDuration: 25, shortBreakDuration: 5, longBreakDuration: 15, longBreakInterval: 4 };
+
+// A clock the tests move forward by hand
+let now: number;
+const advance = (ms: number) => { now += ms; };
+const engine = createTimerEngine(() => now);
+
+// Timers as they come back from storage
+const stored = (timer: NewTimer): ActiveTimer => ({ id: 'user-1', runId: 'run-1', ...timer });
+
+const startPomodoro = (overrides: Partial<Settings> = {}) =>
+  stored(engine.create('pomodoro', project, { ...settings, ...overrides }, '', []));
+
+beforeEach(() => {
+  now = new Date(2026, 0, 5, 9, 0).getTime();
+});
+
+describe('running', () => {
+  it('counts down from the work duration', () => {
+    const timer = startPomodoro();
+    expect(engine.snapshot(timer).remainingSeconds).toBe(25 * 60);
+
+    advance(10 * MINUTE);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.elapsedSeconds).toBe(10 * 60);
+    expect(snapshot.remainingSeconds).toBe(15 * 60);
+    expect(snapshot.displaySeconds).toBe(15 * 60);
+    expect(snapshot.isComplete).toBe(false);
+    expect(snapshot.recordedSeconds).toBe(10 * 60);
+  });
+
+  it('carries the picked task, and leaves it out when there is none', () => {
+    expect(engine.create('pomodoro', project, settings, '', [], 'task-1').taskId).toBe('task-1');
+    expect(engine.create('pomodoro', project, settings, '', [], null)).not.toHaveProperty('taskId');
+  });
+
+  it('counts the stopwatch up and never completes it', () => {
+    const timer = stored(engine.create('stopwatch', project, settings, '', []));
+    advance(90 * MINUTE);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.displaySeconds).toBe(90 * 60);
+    expect(snapshot.recordedSeconds).toBe(90 * 60);
+    expect(snapshot.isComplete).toBe(false);
+  });
+});
+
+describe('pause and resume', () => {
+  it('stops counting while paused', () => {
+    let timer = startPomodoro();
+    advance(10 * MINUTE);
+    timer = engine.pause(timer);
+    expect(timer.isActive).toBe(false);
+    expect(timer.pausedAt).toBe(now);
+
+    advance(5 * MINUTE);
+    expect(engine.snapshot(timer).elapsedSeconds).toBe(10 * 60);
+  });
+
+  it('leaves the paused time out once resumed', () => {
+    let timer = startPomodoro();
+    advance(10 * MINUTE);
+    timer = engine.pause(timer);
+    advance(5 * MINUTE);
+    timer = engine.resume(timer);
+    expect(timer.isActive).toBe(true);
+    expect(timer.pausedAt).toBeUndefined();
+    expect(timer.pausedDuration).toBe(5 * 60);
+
+    advance(5 * MINUTE);
+    expect(engine.snapshot(timer).elapsedSeconds).toBe(15 * 60);
+    expect(engine.snapshot(timer).remainingSeconds).toBe(10 * 60);
+  });
+
+  it('adds up several pauses', () => {
+    let timer = startPomodoro();
+    for (let i = 0; i < 3; i++) {
+      advance(2 * MINUTE);
+      timer = engine.pause(timer);
+      advance(MINUTE);
+      timer = engine.resume(timer);
+    }
+    expect(timer.pausedDuration).toBe(3 * 60);
+    expect(engine.snapshot(timer).elapsedSeconds).toBe(6 * 60);
+  });
+
+  it('ignores pausing a paused timer and resuming a running one', () => {
+    let timer = startPomodoro();
+    expect(engine.resume(timer)).toBe(timer);
+
+    advance(MINUTE);
+    timer = engine.pause(timer);
+    advance(MINUTE);
+    expect(engine.pause(timer)).toBe(timer);
+  });
+});
+
+describe('changing the duration mid-run', () => {
+  it('keeps the time already elapsed', () => {
+    let timer = startPomodoro();
+    advance(10 * MINUTE);
+    timer = engine.changeDuration(timer, 15 * 60);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.durationSeconds).toBe(15 * 60);
+    expect(snapshot.remainingSeconds).toBe(5 * 60);
+  });
+
+  it('works while paused', () => {
+    let timer = startPomodoro();
+    advance(10 * MINUTE);
+    timer = engine.pause(timer);
+    timer = engine.changeDuration(timer, 50 * 60);
+    advance(30 * MINUTE);
+    expect(engine.snapshot(timer).remainingSeconds).toBe(40 * 60);
+  });
+
+  it('completes the phase when shortened below the time elapsed', () => {
+    let timer = startPomodoro();
+    advance(20 * MINUTE);
+    timer = engine.changeDuration(timer, 15 * 60);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.isComplete).toBe(true);
+    expect(snapshot.remainingSeconds).toBe(0);
+    expect(snapshot.recordedSeconds).toBe(15 * 60);
+  });
+
+  it('is at least a minute, and does not apply to the stopwatch', () => {
+    const timer = startPomodoro();
+    expect(engine.changeDuration(timer, 10).initialDuration).toBe(60);
+
+    const stopwatch = stored(engine.create('stopwatch', project, settings, '', []));
+    expect(engine.changeDuration(stopwatch, 15 * 60)).toBe(stopwatch);
+  });
+});
+
+describe('completion', () => {
+  it('completes once the clock reads zero and records the full duration', () => {
+    const timer = startPomodoro();
+    advance(25 * MINUTE - 500);
+    expect(engine.snapshot(timer).isComplete).toBe(true);
+
+    advance(10 * MINUTE);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.remainingSeconds).toBe(0);
+    expect(snapshot.recordedSeconds).toBe(25 * 60);
+  });
+
+  it('is not complete a second before the end', () => {
+    const timer = startPomodoro();
+    advance(25 * MINUTE - 1000);
+    expect(engine.snapshot(timer).isComplete).toBe(false);
+  });
+
+  it('counts past zero in overtime and records it', () => {
+    const timer = startPomodoro({ overtime: true });
+    advance(27 * MINUTE);
+    const snapshot = engine.snapshot(timer);
+    expect(snapshot.isComplete).toBe(true);
+    expect(snapshot.overtimeSeconds).toBe(2 * 60);
+    expect(snapshot.displaySeconds).toBe(2 * 60);
+    expect(snapshot.recordedSeconds).toBe(27 * 60);
+  });
+
+  it('moves on to a break, then to the next work round', () => {
+    const work = stored({ ...startPomodoro({ autoStartBreaks: true }), taskId: 'task-1' });
+    advance(25 * MINUTE);
+
+    const shortBreak = engine.next(work, settings);
+    expect(shortBreak).toMatchObject({ phase: 'shortBreak', round: 1, initialDuration: 5 * 60, isActive: true, startTime: now, taskId: 'task-1' });
+
+    const nextWork = engine.next(stored(shortBreak), settings);
+    expect(nextWork).toMatchObject({ phase: 'work', round: 2, initialDuration: 25 * 60, isActive: false });
+  });
+
+  it('takes a long break after the last round of a cycle and starts over', () => {
+    const work = stored({ ...startPomodoro(), round: 4 });
+    const longBreak = engine.next(work, settings);
+    expect(longBreak).toMatchObject({ phase: 'longBreak', round: 4, initialDuration: 15 * 60 });
+    expect(engine.next(stored(longBreak), settings)).toMatchObject({ phase: 'work', round: 1 });
+  });
+
+  it('does not run breaks into overtime', () => {
+    const breakTimer = stored({ ...startPomodoro({ overtime: true }), phase: 'shortBreak', initialDuration: 5 * 60 });
+    advance(8 * MINUTE);
+    const snapshot = engine.snapshot(breakTimer);
+    expect(snapshot.overtimeSeconds).toBe(0);
+    expect(snapshot.recordedSeconds).toBe(5 * 60);
+  });
+});
@@ -0,0 +1,194 @@
+import { ActiveTimer, Project, ProjectTimerDefaults, Settings, TimerPhase } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+
+// Timer maths shared by the UI and db.ts. Everything here is pure: time comes from the
+// injected clock, and transitions return new timer data instead of writing it anywhere.
+
+export type Clock = () => number; // Milliseconds, e.g. db.getServerNow
+
+export type NewTimer = Omit<ActiveTimer, 'id' | 'runId'>;
+
+export interface TimerSnapshot {
+  phase: TimerPhase;
+  round: number;
+  durationSeconds: number; // Pomodoro phase length (0 for the stopwatch)
+  elapsedSeconds: number; // Running time, pauses excluded
+  remainingSeconds: number; // Pomodoro time left (0 for the stopwatch)
+  overtimeSeconds: number; // Time counted past zero in an overtime work round
+  displaySeconds: number; // Whole seconds shown on the clock face
+  isComplete: boolean; // Pomodoro phase has reached zero
+  recordedSeconds: number; // Duration to record if the phase ended now
+}
+
+// Settings as they apply to a project's timer: its own durations where it has them
+export const getProjectTimerSettings = (settings: Settings, defaults?: ProjectTimerDefaults | null): Settings => ({
+  ...settings,
+  timerDuration: defaults?.timerDuration ?? settings.timerDuration,
+  shortBreakDuration: defaults?.shortBreakDuration ?? settings.shortBreakDuration,
+  longBreakDuration: defaults?.longBreakDuration ?? settings.longBreakDuration,
+});
+
+// Length of a pomodoro cycle phase in seconds
+export const getPhaseDuration = (phase: TimerPhase, settings: Settings): number => {
+  if (phase === 'shortBreak') return settings.shortBreakDuration * 60;
+  if (phase === 'longBreak') return settings.longBreakDuration * 60;
+  return settings.timerDuration * 60;
+};
+
+// Work -> short break -> work -> ... with a long break after every `longBreakInterval` rounds
+export const getNextPhase = (phase: TimerPhase, round: number, settings: Settings): { phase: TimerPhase; round: number } => {
+  if (phase === 'work') {
+    const interval = Math.max(1, settings.longBreakInterval || 1);
+    return { phase: round % interval === 0 ? 'longBreak' : 'shortBreak', round };
+  }
+  // A long break closes the cycle, so counting starts again from round 1
+  return { phase: 'work', round: phase === 'longBreak' ? 1 : round + 1 };
+};
+
+// Running time in seconds; time since pausedAt is not counted
+export const getElapsedSeconds = (timer: ActiveTimer, now: number): number => {
+  const endPoint = timer.isActive ? now : (timer.pausedAt ?? now);
+  return Math.max(0, (endPoint - timer.startTime) / 1000 - (timer.pausedDuration || 0));
+};
+
+export const getTimerSnapshot = (timer: ActiveTimer, now: number, fallbackDurationSeconds = DEFAULT_SETTINGS.timerDuration * 60): TimerSnapshot => {
+  const phase = timer.phase || 'work';
+  const round = timer.round || 1;
+  const elapsedSeconds = getElapsedSeconds(timer, now);
+
+  if (timer.mode === 'stopwatch') {
+    const elapsed = Math.floor(elapsedSeconds);
+    return {
+      phase,
+      round,
+      durationSeconds: 0,
+      elapsedSeconds,
+      remainingSeconds: 0,
+      overtimeSeconds: 0,
+      displaySeconds: elapsed,
+      isComplete: false,
+      recordedSeconds: elapsed,
+    };
+  }
+
+  const durationSeconds = timer.initialDuration || fallbackDurationSeconds;
+  const remainingSeconds = Math.max(0, durationSeconds - elapsedSeconds);
+  // The clock face shows whole seconds, so the phase is over once it reads 00:00
+  const isComplete = remainingSeconds < 1;
+  // Overtime only applies to work rounds: the clock keeps counting up past zero
+  const inOvertime = !!timer.overtime && phase === 'work';
+  const overtimeSeconds = inOvertime ? Math.max(0, Math.floor(elapsedSeconds - durationSeconds)) : 0;
+
+  let recordedSeconds: number;
+  if (inOvertime && isComplete) {
+    recordedSeconds = Math.max(durationSeconds, Math.floor(elapsedSeconds));
+  } else if (isComplete) {
+    recordedSeconds = durationSeconds;
+  } else {
+    recordedSeconds = Math.floor(elapsedSeconds);
+  }
+
+  return {
+    phase,
+    round,
+    durationSeconds,
+    elapsedSeconds,
+    remainingSeconds,
+    overtimeSeconds,
+    displaySeconds: overtimeSeconds > 0 ? overtimeSeconds : Math.floor(remainingSeconds),
+    isComplete,
+    recordedSeconds,
+  };
+};
+
+// --- Transitions ---
+
+export const createTimer = (
+  mode: ActiveTimer['mode'],
+  project: Pick<Project, 'id' | 'name'>,
+  settings: Settings,
+  notes: string,
+  tags: string[],
+  now: number,
+  taskId?: string | null
+): NewTimer => {
+  const timer: NewTimer = {
+    mode,
+    isActive: true,
+    startTime: now,
+    pausedDuration: 0,
+    projectId: project.id,
+    projectName: project.name,
+    notes,
+    tags,
+  };
+  if (taskId) timer.taskId = taskId;
+
+  // Only add initialDuration and cycle position for pomodoro mode
+  if (mode === 'pomodoro') {
+    timer.initialDuration = getPhaseDuration('work', settings);
+    timer.phase = 'work';
+    timer.round = 1;
+    timer.autoStartBreaks = settings.autoStartBreaks;
+    timer.autoStartWork = settings.autoStartWork;
+    timer.overtime = settings.overtime;
+  }
+
+  return timer;
+};
+
+export const pauseTimer = <T extends ActiveTimer>(timer: T, now: number): T => {
+  if (!timer.isActive) return timer;
+  return { ...timer, isActive: false, pausedAt: now };
+};
+
+export const resumeTimer = <T extends ActiveTimer>(timer: T, now: number): T => {
+  if (timer.isActive) return timer;
+  // Add the time that was paused (from pausedAt to now) to pausedDuration
+  const pauseSeconds = timer.pausedAt !== undefined ? Math.max(0, (now - timer.pausedAt) / 1000) : 0;
+  const resumed = { ...timer, isActive: true, pausedDuration: (timer.pausedDuration || 0) + pauseSeconds };
+  delete resumed.pausedAt;
+  return resumed;
+};
+
+// Change the length of the current pomodoro phase mid-run; time already elapsed is kept
+export const changeTimerDuration = <T extends ActiveTimer>(timer: T, durationSeconds: number): T => {
+  if (timer.mode !== 'pomodoro') return timer;
+  return { ...timer, initialDuration: Math.max(60, Math.round(durationSeconds)) };
+};
+
+// The phase that follows the current one in the cycle, started right away if auto-start is on
+export const createNextPhase = (timer: ActiveTimer, settings: Settings, now: number): NewTimer => {
+  const next = getNextPhase(timer.phase || 'work', timer.round || 1, settings);
+  return {
+    mode: 'pomodoro',
+    isActive: next.phase === 'work' ? !!timer.autoStartWork : !!timer.autoStartBreaks,
+    startTime: now,
+    pausedDuration: 0,
+    initialDuration: getPhaseDuration(next.phase, settings),
+    phase: next.phase,
+    round: next.round,
+    autoStartBreaks: !!timer.autoStartBreaks,
+    autoStartWork: !!timer.autoStartWork,
+    overtime: !!timer.overtime,
+    projectId: timer.projectId,
+    projectName: timer.projectName,
+    notes: timer.notes || '',
+    tags: timer.tags || [],
+    ...(timer.taskId && { taskId: timer.taskId }),
+  };
+};
+
+// Binds the pure functions above to a clock
+export const createTimerEngine = (clock: Clock) => ({
+  now: clock,
+  snapshot: (timer: ActiveTimer, fallbackDurationSeconds?: number) => getTimerSnapshot(timer, clock(), fallbackDurationSeconds),
+  create: (mode: ActiveTimer['mode'], project: Pick<Project, 'id' | 'name'>, settings: Settings, notes: string, tags: string[], taskId?: string | null) =>
+    createTimer(mode, project, settings, notes, tags, clock(), taskId),
+  pause: <T extends ActiveTimer>(timer: T) => pauseTimer(timer, clock()),
+  resume: <T extends ActiveTimer>(timer: T) => resumeTimer(timer, clock()),
+  changeDuration: changeTimerDuration,
+  next: (timer: ActiveTimer, settings: Settings) => createNextPhase(timer, settings, clock()),
+});
+
+export type TimerEngine = ReturnType<typeof createTimerEngine>;
@@ -1,221 +1,81 @@
-import { db } from '../lib/firebase';
-import { Project, Session, Settings, ActiveTimer } from '../types';
-import { DEFAULT_SETTINGS, DEFAULT_PROJECTS } from '../constants';
+import { StorageBackend } from '../types';
+import { firestoreBackend } from './storage/firestoreBackend';
 
-// --- Projects ---
+// The app talks to storage only through this module. Each call is forwarded to the active
+// backend, which AuthContext picks when someone signs in (Firestore) or continues without
+// an account (IndexedDB).
 
-export const subscribeToProjects = (userId: string, callback: (projects: Project[]) => void) => {
-  if (!db) return () => {};
-  
-  const collectionRef = db.collection(`users/${userId}/projects`);
-  return collectionRef.onSnapshot((snapshot) => {
-    const projects = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Project));
-    // If no projects exist (new user), create defaults
-    if (projects.length === 0) {
-      initializeDefaultProjects(userId);
-    } else {
-      callback(projects);
-    }
-  });
-};
+let backend: StorageBackend = firestoreBackend;
 
-const initializeDefaultProjects = async (userId: string) => {
-  if (!db) return;
-  const batchPromises = DEFAULT_PROJECTS.map(p => 
-    db.collection(`users/${userId}/projects`).doc(p.id).set(p)
-  );
-  await Promise.all(batchPromises);
+export const setStorageBackend = (next: StorageBackend) => {
+  backend = next;
 };
 
-export const addProject = async (userId: string, project: Omit<Project, 'id'>) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/projects`).add(project);
-};
+// --- Projects ---
 
-export const updateProject = async (userId: string, projectId: string, updates: Partial<Project>) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/projects`).doc(projectId).update(updates);
-};
+export const subscribeToProjects: StorageBackend['subscribeToProjects'] = (...args) => backend.subscribeToProjects(...args);
+export const addProject: StorageBackend['addProject'] = (...args) => backend.addProject(...args);
+export const updateProject: StorageBackend['updateProject'] = (...args) => backend.updateProject(...args);
+export const deleteProject: StorageBackend['deleteProject'] = (...args) => backend.deleteProject(...args);
 
-export const deleteProject = async (userId: string, projectId: string) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/projects`).doc(projectId).delete();
-};
+// --- Tasks ---
 
-// --- Sessions ---
+export const subscribeToTasks: StorageBackend['subscribeToTasks'] = (...args) => backend.subscribeToTasks(...args);
+export const addTask: StorageBackend['addTask'] = (...args) => backend.addTask(...args);
+export const updateTask: StorageBackend['updateTask'] = (...args) => backend.updateTask(...args);
+export const deleteTask: StorageBackend['deleteTask'] = (...args) => backend.deleteTask(...args);
 
-export const subscribeToSessions = (userId: string, callback: (sessions: Session[]) => void) => {
-  if (!db) return () => {};
-  
-  // Order by endTime descending
-  const q = db.collection(`users/${userId}/sessions`).orderBy('endTime', 'desc');
-  
-  return q.onSnapshot((snapshot) => {
-    const sessions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
-    callback(sessions);
-  });
-};
+// --- Tags ---
 
-export const addSession = async (userId: string, session: Session) => {
-  if (!db) return;
-  // We use set with the session.id since we generated it client-side
-  await db.collection(`users/${userId}/sessions`).doc(session.id).set(session);
-};
+export const subscribeToTags: StorageBackend['subscribeToTags'] = (...args) => backend.subscribeToTags(...args);
+export const addTag: StorageBackend['addTag'] = (...args) => backend.addTag(...args);
+export const updateTag: StorageBackend['updateTag'] = (...args) => backend.updateTag(...args);
+export const renameTag: StorageBackend['renameTag'] = (...args) => backend.renameTag(...args);
+export const deleteTag: StorageBackend['deleteTag'] = (...args) => backend.deleteTag(...args);
 
-export const updateSessionInDb = async (userId: string, session: Session) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/sessions`).doc(session.id).update({
-    notes: session.notes,
-    tags: session.tags,
-    durationSeconds: session.durationSeconds,
-    startTime: session.startTime,
-    endTime: session.endTime,
-    projectId: session.projectId,
-    projectName: session.projectName,
-    color: session.color
-  });
-};
+// --- Sessions ---
 
-export const deleteSession = async (userId: string, sessionId: string) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/sessions`).doc(sessionId).delete();
-};
+export const subscribeToSessions: StorageBackend['subscribeToSessions'] = (...args) => backend.subscribeToSessions(...args);
+export const fetchSessionsPage: StorageBackend['fetchSessionsPage'] = (...args) => backend.fetchSessionsPage(...args);
+export const fetchSessionsEndingBetween: StorageBackend['fetchSessionsEndingBetween'] = (...args) => backend.fetchSessionsEndingBetween(...args);
+export const addSession: StorageBackend['addSession'] = (...args) => backend.addSession(...args);
+export const updateSessionInDb: StorageBackend['updateSession'] = (...args) => backend.updateSession(...args);
+export const splitSession: StorageBackend['splitSession'] = (...args) => backend.splitSession(...args);
+export const mergeSessions: StorageBackend['mergeSessions'] = (...args) => backend.mergeSessions(...args);
+export const deleteSession: StorageBackend['deleteSession'] = (...args) => backend.deleteSession(...args);
+export const subscribeToSessionHistory: StorageBackend['subscribeToSessionHistory'] = (...args) => backend.subscribeToSessionHistory(...args);
 
-// --- Settings ---
+// --- Trash ---
 
-export const subscribeToSettings = (userId: string, callback: (settings: Settings) => void) => {
-  if (!db) return () => {};
-  
-  return db.collection(`users/${userId}/settings`).doc('config').onSnapshot((docSnap) => {
-    if (docSnap.exists) {
-      callback(docSnap.data() as Settings);
-    } else {
-      // Initialize default settings
-      db.collection(`users/${userId}/settings`).doc('config').set(DEFAULT_SETTINGS);
-      callback(DEFAULT_SETTINGS);
-    }
-  });
-};
+export const subscribeToTrash: StorageBackend['subscribeToTrash'] = (...args) => backend.subscribeToTrash(...args);
+export const restoreSession: StorageBackend['restoreSession'] = (...args) => backend.restoreSession(...args);
+export const purgeSession: StorageBackend['purgeSession'] = (...args) => backend.purgeSession(...args);
+export const purgeExpiredTrash: StorageBackend['purgeExpiredTrash'] = (...args) => backend.purgeExpiredTrash(...args);
 
-export const updateSettingsInDb = async (userId: string, settings: Settings) => {
-  if (!db) return;
-  await db.collection(`users/${userId}/settings`).doc('config').set(settings);
-};
+// --- Daily Rollups ---
 
-// --- Active Timer ---
+export const subscribeToDailyRollups: StorageBackend['subscribeToDailyRollups'] = (...args) => backend.subscribeToDailyRollups(...args);
+export const ensureDailyRollups: StorageBackend['ensureDailyRollups'] = (...args) => backend.ensureDailyRollups(...args);
 
-export const subscribeToActiveTimer = (userId: string, callback: (timer: ActiveTimer | null) => void) => {
-  if (!db) return () => {};
-  
-  return db.collection('users').doc(userId).collection('activeTimers').doc('current').onSnapshot(
-    (docSnap) => {
-      try {
-        if (docSnap.exists) {
-          callback({ id: docSnap.id, ...docSnap.data() } as ActiveTimer);
-        } else {
-          callback(null);
-        }
-      } catch (error) {
-        console.error('Error in activeTimer subscription:', error);
-        callback(null);
-      }
-    },
-    (error) => {
-      console.error('Error subscribing to activeTimer:', error);
-      callback(null);
-    }
-  );
-};
+// --- Settings ---
 
-export const startTimer = async (userId: string, timerData: Omit<ActiveTimer, 'id'>) => {
-  if (!db) return;
-  
-  // Build the document, explicitly excluding undefined values
-  const timerDoc: any = {
-    mode: timerData.mode,
-    isActive: timerData.isActive,
-    startTime: Date.now(), // Original start time, never changes
-    pausedDuration: timerData.pausedDuration ?? 0, // Total paused time in seconds
-    projectId: timerData.projectId,
-    projectName: timerData.projectName,
-    notes: timerData.notes || '',
-    tags: timerData.tags || [],
-  };
-  
-  // Only include initialDuration if it's defined (for pomodoro mode)
-  if (timerData.initialDuration !== undefined && timerData.initialDuration !== null) {
-    timerDoc.initialDuration = timerData.initialDuration;
-  }
-  
-  // Include pausedAt if it exists
-  if (timerData.pausedAt !== undefined && timerData.pausedAt !== null) {
-    timerDoc.pausedAt = timerData.pausedAt;
-  }
-  
-  await db.collection('users').doc(userId).collection('activeTimers').doc('current').set(timerDoc);
-};
+export const subscribeToSettings: StorageBackend['subscribeToSettings'] = (...args) => backend.subscribeToSettings(...args);
+export const updateSettingsInDb: StorageBackend['updateSettings'] = (...args) => backend.updateSettings(...args);
 
-export const pauseTimer = async (userId: string) => {
-  if (!db) return;
-  const timerDoc = await db.collection('users').doc(userId).collection('activeTimers').doc('current').get();
-  if (!timerDoc.exists || !timerDoc.data()?.isActive) return;
-  
-  const timer = timerDoc.data() as ActiveTimer;
-  const now = Date.now();
-  const currentPausedDuration = timer.pausedDuration || 0;
-  
-  // Calculate running time since startTime (excluding already-paused time)
-  // This is the time that was actively running
-  const totalElapsed = (now - timer.startTime) / 1000;
-  const runningTime = totalElapsed - currentPausedDuration;
-  
-  // When pausing, we don't add running time to pausedDuration
-  // Instead, we just mark it as paused. The running time stays "running"
-  // When we calculate elapsed later, we'll use pausedAt to know when it stopped
-  await db.collection('users').doc(userId).collection('activeTimers').doc('current').update({
-    isActive: false,
-    pausedAt: now,
-    // Keep pausedDuration as is - it only tracks time that was actually paused
-  });
-};
+// --- Clock and Sync ---
 
-export const resumeTimer = async (userId: string) => {
-  if (!db) return;
-  const timerDoc = await db.collection('users').doc(userId).collection('activeTimers').doc('current').get();
-  if (!timerDoc.exists) return;
-  
-  const timer = timerDoc.data() as ActiveTimer;
-  const now = Date.now();
-  const currentPausedDuration = timer.pausedDuration || 0;
-  
-  // Add the time that was paused (from pausedAt to now) to pausedDuration
-  if (timer.pausedAt) {
-    const pauseDuration = (now - timer.pausedAt) / 1000; // Convert to seconds
-    const newPausedDuration = currentPausedDuration + pauseDuration;
-    
-    await db.collection('users').doc(userId).collection('activeTimers').doc('current').update({
-      isActive: true,
-      pausedAt: undefined,
-      pausedDuration: newPausedDuration
-    });
-  } else {
-    // No pausedAt, just resume
-    await db.collection('users').doc(userId).collection('activeTimers').doc('current').update({
-      isActive: true,
-      pausedAt: undefined
-    });
-  }
-};
+export const getServerNow: StorageBackend['getServerNow'] = () => backend.getServerNow();
+export const syncServerClock: StorageBackend['syncServerClock'] = (...args) => backend.syncServerClock(...args);
+export const subscribeToSyncStatus: StorageBackend['subscribeToSyncStatus'] = (...args) => backend.subscribeToSyncStatus(...args);
 
-export const stopTimer = async (userId: string) => {
-  if (!db) return;
-  await db.collection('users').doc(userId).collection('activeTimers').doc('current').delete();
-};
+// --- Active Timer ---
 
-export const updateTimerMetadata = async (userId: string, notes: string, tags: string[]) => {
-  if (!db) return;
-  await db.collection('users').doc(userId).collection('activeTimers').doc('current').update({
-    notes,
-    tags
-  });
-};
\ No newline at end of file
+export const subscribeToActiveTimer: StorageBackend['subscribeToActiveTimer'] = (...args) => backend.subscribeToActiveTimer(...args);
+export const startTimer: StorageBackend['startTimer'] = (...args) => backend.startTimer(...args);
+export const pauseTimer: StorageBackend['pauseTimer'] = (...args) => backend.pauseTimer(...args);
+export const resumeTimer: StorageBackend['resumeTimer'] = (...args) => backend.resumeTimer(...args);
+export const updateTimerDuration: StorageBackend['updateTimerDuration'] = (...args) => backend.updateTimerDuration(...args);
+export const completeTimerPhase: StorageBackend['completeTimerPhase'] = (...args) => backend.completeTimerPhase(...args);
+export const stopTimer: StorageBackend['stopTimer'] = (...args) => backend.stopTimer(...args);
+export const updateTimerMetadata: StorageBackend['updateTimerMetadata'] = (...args) => backend.updateTimerMetadata(...args);
+export const updateTimerOptions: StorageBackend['updateTimerOptions'] = (...args) => backend.updateTimerOptions(...args);
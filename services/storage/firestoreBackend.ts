@@ -0,0 +1,1000 @@
+import firebase, { db } from '../../lib/firebase';
+import { Project, Task, TagDefinition, Session, SessionChange, SessionEditor, SessionRemoval, Settings, ActiveTimer, BreakRecord, TimerTransitionResult, SyncStatus, StorageBackend, SessionCursor, SessionPage, DailyRollup, ProjectDeletion } from '../../types';
+import { DEFAULT_SETTINGS, DEFAULT_PROJECTS, DEFAULT_TAGS } from '../../constants';
+import { resumeTimer as resumeTimerState, changeTimerDuration } from '../../lib/timerEngine';
+import { getRollupContribution, buildDailyRollups, emptyRollup } from '../../lib/rollups';
+import { isTrashed, diffSessions } from '../../lib/sessions';
+import { replaceTag, retagProject, renameInRegistry, diffRegistry } from '../../lib/tags';
+import { isBillable } from '../../lib/billing';
+import { isTaskPomodoro, countTaskPomodoros } from '../../lib/tasks';
+
+// --- Sync Status ---
+
+// With offline persistence on, writes land in the local cache straight away and Firestore
+// sends them when it can. Their promises only resolve once the server has them, so callers
+// should not block the UI on them.
+
+type SyncListener = (status: SyncStatus) => void;
+
+const syncListeners = new Set<SyncListener>();
+let hasPendingWrites = false;
+let writeGeneration = 0;
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+const getSyncStatus = (): SyncStatus => {
+  if (isOffline()) return 'offline';
+  return hasPendingWrites ? 'syncing' : 'synced';
+};
+
+const notifySyncListeners = () => {
+  const status = getSyncStatus();
+  syncListeners.forEach(listener => listener(status));
+};
+
+// Mark the app as syncing until every write queued so far has reached the server
+const trackPendingWrites = () => {
+  if (!db) return;
+  const generation = ++writeGeneration;
+  hasPendingWrites = true;
+  notifySyncListeners();
+  db.waitForPendingWrites()
+    .catch((error) => console.error('Error waiting for pending writes:', error))
+    .finally(() => {
+      // A later write started its own wait; let that one clear the flag
+      if (generation !== writeGeneration) return;
+      hasPendingWrites = false;
+      notifySyncListeners();
+    });
+};
+
+// Wrap a write that has already been issued so it counts towards the sync status
+const trackWrite = <T>(write: Promise<T>): Promise<T> => {
+  trackPendingWrites();
+  return write;
+};
+
+const subscribeToSyncStatus = (callback: SyncListener) => {
+  syncListeners.add(callback);
+  window.addEventListener('online', notifySyncListeners);
+  window.addEventListener('offline', notifySyncListeners);
+  // Writes left queued by an earlier offline session are replayed on startup
+  trackPendingWrites();
+  callback(getSyncStatus());
+  
+  return () => {
+    syncListeners.delete(callback);
+    window.removeEventListener('online', notifySyncListeners);
+    window.removeEventListener('offline', notifySyncListeners);
+  };
+};
+
+// --- Batches ---
+
+type BatchOperation = (batch: firebase.firestore.WriteBatch) => void;
+
+// Writes that go through a transaction or a batch alike
+interface DocumentWriter {
+  set: (ref: firebase.firestore.DocumentReference, data: firebase.firestore.DocumentData, options?: firebase.firestore.SetOptions) => void;
+  update: (ref: firebase.firestore.DocumentReference, data: firebase.firestore.UpdateData) => void;
+  delete: (ref: firebase.firestore.DocumentReference) => void;
+}
+
+const batchWriter = (batch: firebase.firestore.WriteBatch): DocumentWriter => ({
+  set: (docRef, data, options) => { batch.set(docRef, data, options ?? {}); },
+  update: (docRef, data) => { batch.update(docRef, data); },
+  delete: (docRef) => { batch.delete(docRef); },
+});
+
+const transactionWriter = (transaction: firebase.firestore.Transaction): DocumentWriter => ({
+  set: (docRef, data, options) => { transaction.set(docRef, data, options ?? {}); },
+  update: (docRef, data) => { transaction.update(docRef, data); },
+  delete: (docRef) => { transaction.delete(docRef); },
+});
+
+// Batches are limited to 500 writes, so large jobs are committed in slices
+const commitInBatches = async (operations: BatchOperation[], operationsPerBatch = 450) => {
+  for (let i = 0; i < operations.length; i += operationsPerBatch) {
+    const batch = db.batch();
+    operations.slice(i, i + operationsPerBatch).forEach(operation => operation(batch));
+    await trackWrite(batch.commit());
+  }
+};
+
+// --- Projects ---
+
+const subscribeToProjects = (userId: string, callback: (projects: Project[]) => void) => {
+  if (!db) return () => {};
+  
+  const collectionRef = db.collection(`users/${userId}/projects`);
+  return collectionRef.onSnapshot((snapshot) => {
+    const projects = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Project));
+    // If no projects exist (new user), create defaults
+    if (projects.length === 0) {
+      initializeDefaultProjects(userId);
+    } else {
+      callback(projects);
+    }
+  });
+};
+
+const initializeDefaultProjects = async (userId: string) => {
+  if (!db) return;
+  const batchPromises = DEFAULT_PROJECTS.map(p => 
+    db.collection(`users/${userId}/projects`).doc(p.id).set(p)
+  );
+  await trackWrite(Promise.all(batchPromises));
+};
+
+const addProject = async (userId: string, project: Omit<Project, 'id'>) => {
+  if (!db) return;
+  await trackWrite(db.collection(`users/${userId}/projects`).add(project));
+};
+
+const updateProject = async (userId: string, projectId: string, updates: Partial<Project>) => {
+  if (!db) return;
+  await trackWrite(db.collection(`users/${userId}/projects`).doc(projectId).update(updates));
+};
+
+// Delete a project along with its sessions, or after moving them to another project
+const deleteProject = async (userId: string, projectId: string, deletion: ProjectDeletion, editor: SessionEditor) => {
+  if (!db) return;
+  const snapshot = await sessionsRef(userId).where('projectId', '==', projectId).get();
+  const sessions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
+  
+  const operations: BatchOperation[] = sessions.map(session => (batch: firebase.firestore.WriteBatch) => {
+    const ref = sessionsRef(userId).doc(session.id);
+    // Trashed sessions are already out of the rollups
+    const counted = !isTrashed(session);
+    if (counted) addToRollup(batch, userId, session, -1);
+    if (deletion.action === 'reassign') {
+      const moved = { projectId: deletion.project.id, projectName: deletion.project.name, color: deletion.project.color };
+      batch.update(ref, moved);
+      if (counted) addToRollup(batch, userId, { ...session, ...moved }, 1);
+      logChange(batch, userId, session, { ...session, ...moved }, editor);
+    } else {
+      logRemoval(batch, userId, session.id, { reason: 'purged' }, editor);
+      batch.delete(ref);
+    }
+  });
+  // Sub-projects move up a level
+  const projectsRef = db.collection(`users/${userId}/projects`);
+  const [projectSnap, childrenSnap] = await Promise.all([
+    projectsRef.doc(projectId).get(),
+    projectsRef.where('parentId', '==', projectId).get()
+  ]);
+  const parentId = (projectSnap.data() as Project | undefined)?.parentId ?? null;
+  childrenSnap.docs.forEach(doc => operations.push(batch => { batch.update(doc.ref, { parentId }); }));
+
+  // Tasks follow the sessions
+  const tasksSnap = await tasksRef(userId).where('projectId', '==', projectId).get();
+  tasksSnap.docs.forEach(doc => operations.push(batch => {
+    if (deletion.action === 'reassign') batch.update(doc.ref, { projectId: deletion.project.id });
+    else batch.delete(doc.ref);
+  }));
+  
+  // The project goes last, so an interrupted run can simply be retried
+  operations.push(batch => { batch.delete(projectsRef.doc(projectId)); });
+  
+  // Each session takes up to four writes
+  await commitInBatches(operations, 120);
+};
+
+// --- Tasks ---
+
+const tasksRef = (userId: string) => db.collection(`users/${userId}/tasks`);
+
+const subscribeToTasks = (userId: string, callback: (tasks: Task[]) => void) => {
+  if (!db) return () => {};
+  
+  return tasksRef(userId).orderBy('createdAt').onSnapshot((snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Task)));
+  });
+};
+
+const addTask = async (userId: string, task: Omit<Task, 'id'>) => {
+  if (!db) return;
+  await trackWrite(tasksRef(userId).add(task));
+};
+
+const updateTask = async (userId: string, taskId: string, updates: Partial<Task>) => {
+  if (!db) return;
+  await trackWrite(tasksRef(userId).doc(taskId).update(updates));
+};
+
+const deleteTask = async (userId: string, taskId: string) => {
+  if (!db) return;
+  await trackWrite(tasksRef(userId).doc(taskId).delete());
+};
+
+// --- Tags ---
+
+const tagsRef = (userId: string) => db.collection(`users/${userId}/tags`);
+
+const subscribeToTags = (userId: string, callback: (tags: TagDefinition[]) => void) => {
+  if (!db) return () => {};
+  
+  ensureDefaultTags(userId);
+  return tagsRef(userId).onSnapshot((snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as TagDefinition)));
+  });
+};
+
+// A new account's registry starts out with the default quick tags. A flag records that this has
+// happened, so a registry emptied later stays empty; accounts that already have tags just get the flag.
+const ensureDefaultTags = async (userId: string) => {
+  if (!db || isOffline()) return;
+  try {
+    const metaRef = db.collection(`users/${userId}/meta`).doc('tags');
+    const meta = await metaRef.get({ source: 'server' });
+    if (meta.exists) return;
+    
+    const existing = await tagsRef(userId).limit(1).get({ source: 'server' });
+    const batch = db.batch();
+    if (existing.empty) {
+      DEFAULT_TAGS.forEach(({ id, ...tag }) => batch.set(tagsRef(userId).doc(id), tag));
+    }
+    batch.set(metaRef, { defaultsAddedAt: firebase.firestore.FieldValue.serverTimestamp() });
+    await trackWrite(batch.commit());
+  } catch (error) {
+    console.error('Error adding the default tags:', error);
+  }
+};
+
+const addTag = async (userId: string, tag: Omit<TagDefinition, 'id'>) => {
+  if (!db) return;
+  await trackWrite(tagsRef(userId).add(tag));
+};
+
+const updateTag = async (userId: string, tagId: string, updates: Partial<TagDefinition>) => {
+  if (!db) return;
+  await trackWrite(tagsRef(userId).doc(tagId).update(updates));
+};
+
+// Rename (`to` a name) or remove (`to` null) a tag on sessions, their rollups, the running timer
+// and projects, then bring the registry in line
+const retag = async (userId: string, tag: string, to: string | null) => {
+  const [sessionsSnap, projectsSnap, timerSnap, registrySnap] = await Promise.all([
+    sessionsRef(userId).where('tags', 'array-contains', tag).get(),
+    db.collection(`users/${userId}/projects`).get(),
+    activeTimerRef(userId).get(),
+    tagsRef(userId).get()
+  ]);
+
+  const operations: BatchOperation[] = sessionsSnap.docs.map(doc => (batch: firebase.firestore.WriteBatch) => {
+    const session = { id: doc.id, ...doc.data() } as Session;
+    const tags = replaceTag(session.tags || [], tag, to);
+    batch.update(doc.ref, { tags });
+    // Trashed sessions are already out of the rollups
+    if (!isTrashed(session)) {
+      addToRollup(batch, userId, session, -1);
+      addToRollup(batch, userId, { ...session, tags }, 1);
+    }
+  });
+
+  projectsSnap.docs.forEach(doc => {
+    const updates = retagProject({ id: doc.id, ...doc.data() } as Project, tag, to);
+    if (updates) operations.push(batch => { batch.update(doc.ref, updates); });
+  });
+
+  const timer = timerSnap.data() as ActiveTimer | undefined;
+  if (timer?.tags?.includes(tag)) {
+    operations.push(batch => { batch.update(timerSnap.ref, { tags: replaceTag(timer.tags, tag, to) }); });
+  }
+
+  const registry = registrySnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as TagDefinition));
+  const updated = to === null ? registry.filter(t => t.name !== tag) : renameInRegistry(registry, tag, to);
+  const { changed, removedIds } = diffRegistry(registry, updated);
+  changed.forEach(({ id, ...definition }) => operations.push(batch => { batch.set(tagsRef(userId).doc(id), definition); }));
+  removedIds.forEach(id => operations.push(batch => { batch.delete(tagsRef(userId).doc(id)); }));
+
+  // Each session takes up to three writes
+  await commitInBatches(operations, 150);
+};
+
+const renameTag = async (userId: string, from: string, to: string) => {
+  if (!db || !to || from === to) return;
+  await retag(userId, from, to);
+};
+
+const deleteTag = async (userId: string, name: string) => {
+  if (!db) return;
+  await retag(userId, name, null);
+};
+
+// --- Sessions ---
+
+const sessionsRef = (userId: string) => db.collection(`users/${userId}/sessions`);
+
+// Live sessions have no deletedAt field at all, and Firestore cannot query for a missing
+// field, so trashed sessions are filtered out after reading
+const subscribeToSessions = (userId: string, since: number | undefined, callback: (sessions: Session[]) => void) => {
+  if (!db) return () => {};
+  
+  // Order by endTime descending
+  let q = sessionsRef(userId).orderBy('endTime', 'desc');
+  if (since !== undefined) {
+    q = q.where('endTime', '>=', since);
+  }
+  
+  return q.onSnapshot((snapshot) => {
+    const sessions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
+    callback(sessions.filter(s => !isTrashed(s)));
+  });
+};
+
+const fetchSessionsPage = async (userId: string, cursor: SessionCursor, limit: number): Promise<SessionPage> => {
+  if (!db) return { sessions: [], nextCursor: null };
+  
+  const ordered = sessionsRef(userId)
+    .orderBy('endTime', 'desc')
+    .orderBy(firebase.firestore.FieldPath.documentId(), 'desc');
+  // Document id cursors must not be empty; without one, skip every session at cursor.endTime
+  const snapshot = await (cursor.id ? ordered.startAfter(cursor.endTime, cursor.id) : ordered.startAfter(cursor.endTime))
+    .limit(limit)
+    .get();
+  
+  // The cursor follows every document read, trashed or not, so a page may come back short
+  const sessions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
+  const last = sessions[sessions.length - 1];
+  return {
+    sessions: sessions.filter(s => !isTrashed(s)),
+    nextCursor: sessions.length === limit ? { endTime: last.endTime, id: last.id } : null
+  };
+};
+
+const fetchSessionsEndingBetween = async (userId: string, from: number, to: number): Promise<Session[]> => {
+  if (!db) return [];
+  const snapshot = await sessionsRef(userId).where('endTime', '>=', from).where('endTime', '<', to).get();
+  const sessions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
+  return sessions.filter(s => !isTrashed(s));
+};
+
+const addSession = async (userId: string, session: Session) => {
+  if (!db) return;
+  const batch = db.batch();
+  // We use set with the session.id since we generated it client-side
+  batch.set(sessionsRef(userId).doc(session.id), session);
+  addToRollup(batch, userId, session, 1);
+  await trackWrite(batch.commit());
+};
+
+const updateSessionInDb = async (userId: string, session: Session, editor: SessionEditor) => {
+  const fields = {
+    notes: session.notes,
+    tags: session.tags,
+    durationSeconds: session.durationSeconds,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    projectId: session.projectId,
+    projectName: session.projectName,
+    color: session.color,
+    billable: isBillable(session)
+  };
+  await runSessionWrite(userId, [session.id], ([previous], writer) => {
+    // Firestore has no undefined, so a task that was unlinked is deleted from the document
+    writer.update(sessionsRef(userId).doc(session.id), {
+      ...fields,
+      taskId: session.taskId || firebase.firestore.FieldValue.delete()
+    });
+    if (previous) {
+      const updated: Session = { ...previous, ...fields, taskId: session.taskId };
+      addToRollup(writer, userId, previous, -1);
+      addToRollup(writer, userId, updated, 1);
+      logChange(writer, userId, previous, updated, editor);
+    }
+  });
+};
+
+// Replace one session with two in one step; the first part keeps the original id
+const splitSession = async (userId: string, parts: [Session, Session], editor: SessionEditor) => {
+  await runSessionWrite(userId, [parts[0].id], ([original], writer) => {
+    writer.set(sessionsRef(userId).doc(parts[0].id), parts[0]);
+    writer.set(sessionsRef(userId).doc(parts[1].id), parts[1]);
+    if (original) {
+      addToRollup(writer, userId, original, -1);
+      logChange(writer, userId, original, parts[0], editor);
+    }
+    parts.forEach(part => addToRollup(writer, userId, part, 1));
+  });
+};
+
+// Write the merged session and remove the ones folded into it in one step
+const mergeSessions = async (userId: string, merged: Session, removedIds: string[], editor: SessionEditor) => {
+  await runSessionWrite(userId, [merged.id, ...removedIds], (previous, writer) => {
+    writer.set(sessionsRef(userId).doc(merged.id), merged);
+    removedIds.forEach(id => {
+      logRemoval(writer, userId, id, { reason: 'merged', into: merged.id }, editor);
+      writer.delete(sessionsRef(userId).doc(id));
+    });
+    previous.forEach(s => addToRollup(writer, userId, s, -1));
+    addToRollup(writer, userId, merged, 1);
+    const original = previous.find(s => s.id === merged.id);
+    if (original) logChange(writer, userId, original, merged, editor);
+  });
+};
+
+const deleteSession = async (userId: string, sessionId: string) => {
+  await runSessionWrite(userId, [sessionId], ([previous], writer) => {
+    if (!previous || isTrashed(previous)) return;
+    writer.update(sessionsRef(userId).doc(sessionId), { deletedAt: getServerNow() });
+    addToRollup(writer, userId, previous, -1);
+  });
+};
+
+// --- Session History ---
+
+const historyRef = (userId: string, sessionId: string) => sessionsRef(userId).doc(sessionId).collection('history');
+
+const subscribeToSessionHistory = (userId: string, sessionId: string, callback: (history: SessionChange[]) => void) => {
+  if (!db) return () => {};
+  
+  return historyRef(userId, sessionId).orderBy('changedAt', 'desc').onSnapshot((snapshot) => {
+    callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SessionChange)));
+  });
+};
+
+// Append what changed between two versions of a session to its history; nothing if no tracked field did
+const logChange = (writer: DocumentWriter, userId: string, before: Session, after: Session, editor: SessionEditor) => {
+  const changes = diffSessions(before, after);
+  if (Object.keys(changes).length > 0) {
+    writer.set(historyRef(userId, before.id).doc(), { changedAt: getServerNow(), changedBy: editor, changes });
+  }
+};
+
+// Close the history of a session that is about to be deleted. Deleting a document leaves its
+// subcollections behind, so the history outlives the session.
+const logRemoval = (writer: DocumentWriter, userId: string, sessionId: string, removal: SessionRemoval, editor: SessionEditor) => {
+  writer.set(historyRef(userId, sessionId).doc(), { changedAt: getServerNow(), changedBy: editor, changes: {}, removal });
+};
+
+// Each session's removal is logged in the same batch that deletes it
+const purgeOperations = (userId: string, sessionIds: string[], editor: SessionEditor): BatchOperation[] =>
+  sessionIds.map(id => (batch: firebase.firestore.WriteBatch) => {
+    logRemoval(batch, userId, id, { reason: 'purged' }, editor);
+    batch.delete(sessionsRef(userId).doc(id));
+  });
+
+// --- Trash ---
+
+const subscribeToTrash = (userId: string, callback: (sessions: Session[]) => void) => {
+  if (!db) return () => {};
+  
+  return sessionsRef(userId)
+    .where('deletedAt', '>', 0)
+    .orderBy('deletedAt', 'desc')
+    .onSnapshot((snapshot) => {
+      callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session)));
+    });
+};
+
+const restoreSession = async (userId: string, sessionId: string) => {
+  await runSessionWrite(userId, [sessionId], ([previous], writer) => {
+    if (!previous || !isTrashed(previous)) return;
+    writer.update(sessionsRef(userId).doc(sessionId), { deletedAt: firebase.firestore.FieldValue.delete() });
+    addToRollup(writer, userId, previous, 1);
+  });
+};
+
+// Trashed sessions are already out of the rollups, so purging only removes documents
+const purgeSession = async (userId: string, sessionId: string, editor: SessionEditor) => {
+  if (!db) return;
+  await commitInBatches(purgeOperations(userId, [sessionId], editor));
+};
+
+// Housekeeping that can wait until the next time the app loads online
+const purgeExpiredTrash = async (userId: string, before: number, editor: SessionEditor) => {
+  if (!db || isOffline()) return;
+  try {
+    const snapshot = await sessionsRef(userId).where('deletedAt', '<', before).get();
+    await commitInBatches(purgeOperations(userId, snapshot.docs.map(doc => doc.id), editor));
+  } catch (error) {
+    console.error('Error emptying expired trash:', error);
+  }
+};
+
+// --- Daily Rollups ---
+
+// Bump this to rebuild everyone's rollups from their sessions on next load
+// (version 2 also counted each task's pomodoros)
+const ROLLUP_VERSION = 2;
+
+const rollupsRef = (userId: string) => db.collection(`users/${userId}/dailyRollups`);
+
+// Add a session to (sign 1) or take it out of (sign -1) its day's rollup with increments,
+// which commute, so writes queued offline on several devices still add up
+const addToRollup = (
+  writer: { set: (ref: firebase.firestore.DocumentReference, data: firebase.firestore.DocumentData, options: firebase.firestore.SetOptions) => unknown },
+  userId: string,
+  session: Session,
+  sign: 1 | -1
+) => {
+  const c = getRollupContribution(session);
+  const increment = (value: number) => firebase.firestore.FieldValue.increment(sign * value);
+  const tags: Record<string, firebase.firestore.FieldValue> = {};
+  c.tags.forEach(tag => {
+    tags[tag] = increment(c.seconds);
+  });
+  // Only an added session updates the project's display name and color
+  const project = sign === 1
+    ? { name: c.projectName, color: c.color, seconds: increment(c.seconds) }
+    : { seconds: increment(c.seconds) };
+  
+  writer.set(rollupsRef(userId).doc(c.dateKey), {
+    date: c.dateKey,
+    totalSeconds: increment(c.seconds),
+    sessionCount: increment(1),
+    projects: { [c.projectId]: project },
+    tags,
+    durationBuckets: { [c.bucket]: increment(1) }
+  }, { merge: true });
+};
+
+// Read some sessions and write what follows from them in one atomic step. Online it runs as a
+// transaction, so two edits of one session (on two devices, or two quick ones on this one) cannot
+// both take its old values out of the rollups. Offline it reads the cache and queues a batch,
+// like timer transitions. `change` gets the stored versions of the sessions that exist.
+const runSessionWrite = async (
+  userId: string,
+  ids: string[],
+  change: (previous: Session[], writer: DocumentWriter) => void
+) => {
+  if (!db) return;
+  const refs = ids.map(id => sessionsRef(userId).doc(id));
+  const toSessions = (snapshots: (firebase.firestore.DocumentSnapshot | null)[]) => snapshots
+    .filter((snap): snap is firebase.firestore.DocumentSnapshot => !!snap?.exists)
+    .map(snap => ({ id: snap.id, ...snap.data() } as Session));
+  
+  const runAgainstCache = async () => {
+    const snapshots = await Promise.all(refs.map(ref => ref.get({ source: 'cache' }).catch(() => null)));
+    const batch = db.batch();
+    change(toSessions(snapshots), batchWriter(batch));
+    await trackWrite(batch.commit());
+  };
+  
+  if (isOffline()) return runAgainstCache();
+  
+  try {
+    await db.runTransaction(async (transaction) => {
+      const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+      change(toSessions(snapshots), transactionWriter(transaction));
+    });
+    trackPendingWrites();
+  } catch (error) {
+    // The browser thinks it is online but the server cannot be reached
+    if ((error as firebase.firestore.FirestoreError).code === 'unavailable') return runAgainstCache();
+    throw error;
+  }
+};
+
+const subscribeToDailyRollups = (userId: string, sinceDate: string | undefined, callback: (rollups: DailyRollup[]) => void) => {
+  if (!db) return () => {};
+  
+  let q = rollupsRef(userId).orderBy('date', 'asc');
+  if (sinceDate !== undefined) {
+    q = q.where('date', '>=', sinceDate);
+  }
+  
+  return q.onSnapshot((snapshot) => {
+    callback(snapshot.docs.map(doc => ({ ...emptyRollup(doc.id), ...doc.data() } as DailyRollup)));
+  });
+};
+
+// Existing accounts have sessions but no rollups: read every session once and write the totals.
+// Rollup documents are replaced outright, which also repairs any that have drifted. Tasks from
+// before pomodoros were counted on the task get their count in the same pass.
+const ensureDailyRollups = async (userId: string) => {
+  if (!db || isOffline()) return;
+  try {
+    const metaRef = db.collection(`users/${userId}/meta`).doc('rollups');
+    const meta = await metaRef.get({ source: 'server' });
+    if (meta.exists && meta.data()?.version === ROLLUP_VERSION) return;
+    
+    const [sessionsSnap, existingSnap, tasksSnap] = await Promise.all([
+      sessionsRef(userId).get({ source: 'server' }),
+      rollupsRef(userId).get({ source: 'server' }),
+      tasksRef(userId).get({ source: 'server' })
+    ]);
+    const sessions = sessionsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as Session));
+    const rollups = buildDailyRollups(sessions.filter(s => !isTrashed(s)));
+    const rebuiltDates = new Set(rollups.map(r => r.id));
+    const pomodoroCounts = countTaskPomodoros(sessions);
+    
+    await commitInBatches([
+      ...rollups.map(rollup => (batch: firebase.firestore.WriteBatch) => { batch.set(rollupsRef(userId).doc(rollup.id), rollup); }),
+      ...existingSnap.docs
+        .filter(doc => !rebuiltDates.has(doc.id))
+        .map(doc => (batch: firebase.firestore.WriteBatch) => { batch.delete(doc.ref); }),
+      ...tasksSnap.docs
+        .filter(doc => (doc.data() as Task).pomodoros === undefined && pomodoroCounts[doc.id])
+        .map(doc => (batch: firebase.firestore.WriteBatch) => { batch.update(doc.ref, { pomodoros: pomodoroCounts[doc.id] }); })
+    ]);
+    await trackWrite(metaRef.set({ version: ROLLUP_VERSION, builtAt: firebase.firestore.FieldValue.serverTimestamp() }));
+  } catch (error) {
+    console.error('Error building daily rollups:', error);
+  }
+};
+
+// --- Settings ---
+
+const subscribeToSettings = (userId: string, callback: (settings: Settings) => void) => {
+  if (!db) return () => {};
+  
+  return db.collection(`users/${userId}/settings`).doc('config').onSnapshot((docSnap) => {
+    if (docSnap.exists) {
+      // Fill in fields added after the settings document was first created
+      callback({ ...DEFAULT_SETTINGS, ...docSnap.data() } as Settings);
+    } else {
+      // Initialize default settings
+      db.collection(`users/${userId}/settings`).doc('config').set(DEFAULT_SETTINGS);
+      callback(DEFAULT_SETTINGS);
+    }
+  });
+};
+
+const updateSettingsInDb = async (userId: string, settings: Settings) => {
+  if (!db) return;
+  await trackWrite(db.collection(`users/${userId}/settings`).doc('config').set(settings));
+};
+
+// --- Server Clock ---
+
+// Estimated difference between the Firestore server clock and this device's clock, in ms
+let clockOffsetMs = 0;
+
+// Current time on the server's clock, as estimated by this client
+const getServerNow = () => Date.now() + clockOffsetMs;
+
+// Write a server timestamp and read it back; the midpoint of the round trip approximates
+// the moment the server stamped it, which gives this device's clock offset
+const syncServerClock = async (userId: string) => {
+  // Needs a server round trip; the last known offset is kept until we are back online
+  if (!db || isOffline()) return;
+  try {
+    const clockRef = db.collection(`users/${userId}/meta`).doc('clock');
+    const sentAt = Date.now();
+    await clockRef.set({ now: firebase.firestore.FieldValue.serverTimestamp() });
+    const snapshot = await clockRef.get({ source: 'server' });
+    const receivedAt = Date.now();
+    const serverTime = snapshot.data()?.now as firebase.firestore.Timestamp | undefined;
+    if (serverTime) {
+      clockOffsetMs = serverTime.toMillis() - (sentAt + receivedAt) / 2;
+    }
+  } catch (error) {
+    console.error('Error syncing server clock:', error);
+  }
+};
+
+// --- Active Timer ---
+
+const activeTimerRef = (userId: string) =>
+  db.collection('users').doc(userId).collection('activeTimers').doc('current');
+
+// Timer documents store Firestore Timestamps; older documents still hold plain millisecond numbers
+const toMillis = (value: firebase.firestore.Timestamp | number | undefined | null): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'number' ? value : value.toMillis();
+};
+
+// Read a timer document with its times converted to ms
+const readTimer = (docSnap: firebase.firestore.DocumentSnapshot): ActiveTimer => {
+  // Until the server confirms a write, its timestamps are estimated from the local clock
+  const data = docSnap.data({ serverTimestamps: 'estimate' })!;
+  const timer = { id: docSnap.id, ...data, startTime: toMillis(data.startTime) } as ActiveTimer;
+  const pausedAt = toMillis(data.pausedAt);
+  if (pausedAt !== undefined) {
+    timer.pausedAt = pausedAt;
+  } else {
+    delete timer.pausedAt;
+  }
+  return timer;
+};
+
+const subscribeToActiveTimer = (userId: string, callback: (timer: ActiveTimer | null) => void) => {
+  if (!db) return () => {};
+  
+  return activeTimerRef(userId).onSnapshot(
+    (docSnap) => {
+      try {
+        if (docSnap.exists) {
+          callback(readTimer(docSnap));
+        } else {
+          callback(null);
+        }
+      } catch (error) {
+        console.error('Error in activeTimer subscription:', error);
+        callback(null);
+      }
+    },
+    (error) => {
+      console.error('Error subscribing to activeTimer:', error);
+      callback(null);
+    }
+  );
+};
+
+type TimerStamp = firebase.firestore.FieldValue | number;
+
+// Build the timer document, explicitly excluding undefined values.
+// `stamp` is a server timestamp when online, or this device's estimate of server time when offline:
+// a server timestamp queued offline would only resolve on reconnect and record the wrong start.
+const buildTimerDoc = (timerData: Omit<ActiveTimer, 'id' | 'runId'>, stamp: TimerStamp) => {
+  const timerDoc: any = {
+    runId: crypto.randomUUID(), // Identifies this run so stale transitions from other devices are rejected
+    mode: timerData.mode,
+    isActive: timerData.isActive,
+    startTime: stamp, // Original start time on the server's clock, never changes
+    pausedDuration: timerData.pausedDuration ?? 0, // Total paused time in seconds
+    projectId: timerData.projectId,
+    projectName: timerData.projectName,
+    notes: timerData.notes || '',
+    tags: timerData.tags || [],
+  };
+  
+  // Only include initialDuration if it's defined (for pomodoro mode)
+  if (timerData.initialDuration !== undefined && timerData.initialDuration !== null) {
+    timerDoc.initialDuration = timerData.initialDuration;
+  }
+  
+  // Pomodoro cycle position
+  if (timerData.phase !== undefined && timerData.phase !== null) {
+    timerDoc.phase = timerData.phase;
+  }
+  if (timerData.round !== undefined && timerData.round !== null) {
+    timerDoc.round = timerData.round;
+  }
+  
+  // Task picked before the timer started
+  if (timerData.taskId !== undefined && timerData.taskId !== null) {
+    timerDoc.taskId = timerData.taskId;
+  }
+  
+  // Pomodoro cycle options
+  if (timerData.autoStartBreaks !== undefined && timerData.autoStartBreaks !== null) {
+    timerDoc.autoStartBreaks = timerData.autoStartBreaks;
+  }
+  if (timerData.autoStartWork !== undefined && timerData.autoStartWork !== null) {
+    timerDoc.autoStartWork = timerData.autoStartWork;
+  }
+  if (timerData.overtime !== undefined && timerData.overtime !== null) {
+    timerDoc.overtime = timerData.overtime;
+  }
+  
+  if (!timerData.isActive) {
+    // Created paused (e.g. the next phase of a cycle waiting to be started): no time has elapsed yet
+    timerDoc.pausedAt = stamp;
+  }
+  
+  return timerDoc;
+};
+
+const TIMER_UNAVAILABLE: TimerTransitionResult = { ok: false, conflict: 'unavailable' };
+const TIMER_OK: TimerTransitionResult = { ok: true };
+
+// What a timer transition sees and writes through, whether it runs online or offline
+interface TimerTransitionContext extends DocumentWriter {
+  timer: ActiveTimer | null; // Current timer with times in ms, or null if none exists
+  stamp: TimerStamp; // "Now" on the server's clock, to store in the document
+}
+
+// Online, a transition runs as a transaction so concurrent devices cannot clobber each other.
+// Transactions need the server, so offline it runs against the cached timer instead and its
+// writes wait in Firestore's persisted write queue until the connection comes back.
+const runTimerTransition = async (
+  userId: string,
+  transition: (context: TimerTransitionContext) => TimerTransitionResult
+): Promise<TimerTransitionResult> => {
+  if (!db) return TIMER_UNAVAILABLE;
+  const ref = activeTimerRef(userId);
+  
+  const runAgainstCache = async () => {
+    const cached = await ref.get({ source: 'cache' }).catch(() => null);
+    const batch = db.batch();
+    const result = transition({
+      ...batchWriter(batch),
+      timer: cached?.exists ? readTimer(cached) : null,
+      stamp: getServerNow(),
+    });
+    // Not awaited: the commit only resolves once the server has acknowledged it
+    if (result.ok) trackWrite(batch.commit()).catch((error) => console.error('Error syncing offline timer change:', error));
+    return result;
+  };
+  
+  if (isOffline()) return runAgainstCache();
+  
+  try {
+    const result = await db.runTransaction(async (transaction) => {
+      const timerDoc = await transaction.get(ref);
+      return transition({
+        ...transactionWriter(transaction),
+        timer: timerDoc.exists ? readTimer(timerDoc) : null,
+        stamp: firebase.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    if (result.ok) trackPendingWrites();
+    return result;
+  } catch (error) {
+    // The browser thinks it is online but the server cannot be reached (e.g. a captive portal)
+    if ((error as firebase.firestore.FirestoreError).code === 'unavailable') return runAgainstCache();
+    throw error;
+  }
+};
+
+const startTimer = async (userId: string, timerData: Omit<ActiveTimer, 'id' | 'runId'>): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, stamp, set }) => {
+    // Another device started a timer first
+    if (timer) return { ok: false, conflict: 'already-exists' };
+    
+    set(activeTimerRef(userId), buildTimerDoc(timerData, stamp));
+    return TIMER_OK;
+  });
+};
+
+const pauseTimer = async (userId: string, runId: string | undefined): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, stamp, update }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    if (!timer.isActive) return { ok: false, conflict: 'already-paused' };
+    
+    // When pausing, we don't add running time to pausedDuration
+    // Instead, we just mark it as paused. The running time stays "running"
+    // When we calculate elapsed later, we'll use pausedAt to know when it stopped
+    update(activeTimerRef(userId), {
+      isActive: false,
+      pausedAt: stamp,
+      // Keep pausedDuration as is - it only tracks time that was actually paused
+    });
+    return TIMER_OK;
+  });
+};
+
+const resumeTimer = async (userId: string, runId: string | undefined): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, update }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    if (timer.isActive) return { ok: false, conflict: 'already-running' };
+    
+    // pausedAt and now are both on the server's clock
+    const resumed = resumeTimerState(timer, getServerNow());
+    
+    update(activeTimerRef(userId), {
+      isActive: true,
+      pausedAt: firebase.firestore.FieldValue.delete(),
+      pausedDuration: resumed.pausedDuration
+    });
+    return TIMER_OK;
+  });
+};
+
+// Change the length of the current pomodoro phase without restarting it
+const updateTimerDuration = async (userId: string, runId: string | undefined, initialDuration: number): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, update }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId || timer.mode !== 'pomodoro') return { ok: false, conflict: 'stale' };
+    
+    update(activeTimerRef(userId), { initialDuration: changeTimerDuration(timer, initialDuration).initialDuration });
+    return TIMER_OK;
+  });
+};
+
+// Record a finished phase and move on to the next one (or clear the timer) in one step,
+// so two devices noticing the same completion cannot both save it. Records are keyed by
+// the run they finish, so a completion replayed from an offline device overwrites rather
+// than duplicates one already saved elsewhere.
+const completeTimerPhase = async (
+  userId: string,
+  runId: string | undefined,
+  record: { session?: Session; breakRecord?: BreakRecord },
+  nextTimer: Omit<ActiveTimer, 'id' | 'runId'> | null
+): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, stamp, set, delete: remove }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    
+    if (record.session) {
+      const session = runId ? { ...record.session, id: runId } : record.session;
+      set(sessionsRef(userId).doc(session.id), session);
+      addToRollup({ set }, userId, session, 1);
+      if (isTaskPomodoro(session)) {
+        // Merged in, so a task deleted during the round doesn't fail the whole transition; the
+        // leftover document has no createdAt, so the task list never picks it up
+        set(tasksRef(userId).doc(session.taskId!), { pomodoros: firebase.firestore.FieldValue.increment(1) }, { merge: true });
+      }
+    }
+    if (record.breakRecord) {
+      const breakRecord = runId ? { ...record.breakRecord, id: runId } : record.breakRecord;
+      // Breaks live in their own collection so they never show up as project time
+      set(db.collection(`users/${userId}/breaks`).doc(breakRecord.id), breakRecord);
+    }
+    if (nextTimer) {
+      set(activeTimerRef(userId), buildTimerDoc(nextTimer, stamp));
+    } else {
+      remove(activeTimerRef(userId));
+    }
+    return TIMER_OK;
+  });
+};
+
+// Discard the current run without recording it
+const stopTimer = async (userId: string, runId: string | undefined): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, delete: remove }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    
+    remove(activeTimerRef(userId));
+    return TIMER_OK;
+  });
+};
+
+const updateTimerMetadata = async (userId: string, runId: string | undefined, notes: string, tags: string[]): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, update }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    
+    update(activeTimerRef(userId), { notes, tags });
+    return TIMER_OK;
+  });
+};
+
+const updateTimerOptions = async (
+  userId: string,
+  runId: string | undefined,
+  options: Pick<ActiveTimer, 'autoStartBreaks' | 'autoStartWork' | 'overtime'>
+): Promise<TimerTransitionResult> => {
+  return runTimerTransition(userId, ({ timer, update }) => {
+    if (!timer) return { ok: false, conflict: 'not-found' };
+    if (timer.runId !== runId) return { ok: false, conflict: 'stale' };
+    
+    update(activeTimerRef(userId), {
+      autoStartBreaks: options.autoStartBreaks ?? false,
+      autoStartWork: options.autoStartWork ?? false,
+      overtime: options.overtime ?? false
+    });
+    return TIMER_OK;
+  });
+};
+
+export const firestoreBackend: StorageBackend = {
+  subscribeToProjects,
+  addProject,
+  updateProject,
+  deleteProject,
+  subscribeToTasks,
+  addTask,
+  updateTask,
+  deleteTask,
+  subscribeToTags,
+  addTag,
+  updateTag,
+  renameTag,
+  deleteTag,
+  subscribeToSessions,
+  fetchSessionsPage,
+  fetchSessionsEndingBetween,
+  addSession,
+  updateSession: updateSessionInDb,
+  splitSession,
+  mergeSessions,
+  deleteSession,
+  subscribeToSessionHistory,
+  subscribeToTrash,
+  restoreSession,
+  purgeSession,
+  purgeExpiredTrash,
+  subscribeToDailyRollups,
+  ensureDailyRollups,
+  subscribeToSettings,
+  updateSettings: updateSettingsInDb,
+  getServerNow,
+  syncServerClock,
+  subscribeToSyncStatus,
+  subscribeToActiveTimer,
+  startTimer,
+  pauseTimer,
+  resumeTimer,
+  updateTimerDuration,
+  completeTimerPhase,
+  stopTimer,
+  updateTimerMetadata,
+  updateTimerOptions,
+};
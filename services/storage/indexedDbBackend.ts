@@ -0,0 +1,76 @@
+import { createLocalBackend, LocalPersistence, LocalUserData } from './localBackend';
+
+// Local-only storage for people using the app without an account.
+// Each user's data is saved as a single record in the `users` object store. Tabs take turns
+// writing it under a Web Lock and tell each other about saves over a BroadcastChannel.
+
+const DATABASE_NAME = 'shadfocus';
+const DATABASE_VERSION = 1;
+const USERS_STORE = 'users';
+const CHANNEL_NAME = 'shadfocus-local';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(USERS_STORE)) {
+          request.result.createObjectStore(USERS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+// Saves by this tab are posted here; a channel never receives its own messages
+let channel: BroadcastChannel | null = null;
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+const indexedDbPersistence: LocalPersistence = {
+  load: async (userId) => {
+    const database = await openDatabase();
+    return new Promise<LocalUserData | null>((resolve, reject) => {
+      const request = database.transaction(USERS_STORE, 'readonly').objectStore(USERS_STORE).get(userId);
+      request.onsuccess = () => resolve((request.result as LocalUserData | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  save: async (userId, data) => {
+    const database = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(USERS_STORE, 'readwrite');
+      transaction.objectStore(USERS_STORE).put(data, userId);
+      transaction.oncomplete = () => {
+        getChannel()?.postMessage({ userId });
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  // Browsers without Web Locks fall back to this tab's own ordering
+  lock: (userId, update) => navigator.locks
+    ? navigator.locks.request(`${DATABASE_NAME}:${userId}`, update)
+    : update(),
+
+  watch: (userId, listener) => {
+    const saves = getChannel();
+    if (!saves) return () => {};
+    const onMessage = (event: MessageEvent<{ userId: string }>) => {
+      if (event.data.userId === userId) listener();
+    };
+    saves.addEventListener('message', onMessage);
+    return () => saves.removeEventListener('message', onMessage);
+  },
+};
+
+export const indexedDbBackend = createLocalBackend(indexedDbPersistence);
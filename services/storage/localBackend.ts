@@ -0,0 +1,520 @@
+import { Project, Task, TagDefinition, Session, SessionChange, SessionEditor, SessionRemoval, Settings, ActiveTimer, BreakRecord, TimerConflict, TimerTransitionResult, StorageBackend, Unsubscribe } from '../../types';
+import { DEFAULT_SETTINGS, DEFAULT_PROJECTS, DEFAULT_TAGS } from '../../constants';
+import { pauseTimer as pauseTimerState, resumeTimer as resumeTimerState, changeTimerDuration } from '../../lib/timerEngine';
+import { buildDailyRollups } from '../../lib/rollups';
+import { isTrashed, diffSessions } from '../../lib/sessions';
+import { replaceTag, retagProject, renameInRegistry } from '../../lib/tags';
+import { isTaskPomodoro, countTaskPomodoros } from '../../lib/tasks';
+
+// A backend that keeps everything in memory and hands each change to a LocalPersistence.
+// Several tabs can share one persistence: each change re-reads the saved data under the
+// persistence's lock before building on it, and other tabs' saves are read back as they happen,
+// so tabs never overwrite each other and timer transitions need no further transactions.
+
+// Everything one user has stored, kept together so it can be saved in one go
+export interface LocalUserData {
+  projects: Project[];
+  tasks: Task[]; // Ordered by createdAt
+  tags: TagDefinition[];
+  defaultTagsAdded: boolean; // Set once the registry has been given the default tags, so they are added only once
+  sessions: Session[]; // Ordered by endTime, newest first
+  sessionHistory: Record<string, SessionChange[]>; // Keyed by session id, newest change first
+  breaks: BreakRecord[];
+  settings: Settings | null;
+  activeTimer: ActiveTimer | null;
+}
+
+// Where a local backend keeps its data between page loads
+export interface LocalPersistence {
+  load: (userId: string) => Promise<LocalUserData | null>;
+  save: (userId: string, data: LocalUserData) => Promise<void>;
+  // Run `update` while no other tab can change the user's data; left out when nothing else can
+  lock?: <T>(userId: string, update: () => Promise<T>) => Promise<T>;
+  // Call `listener` whenever another tab has saved the user's data (used together with `lock`)
+  watch?: (userId: string, listener: () => void) => Unsubscribe;
+}
+
+type Slice = keyof LocalUserData;
+type SliceListener = (data: LocalUserData) => void;
+
+interface UserStore {
+  data: LocalUserData;
+  listeners: Map<Slice, Set<SliceListener>>;
+}
+
+type LocalTransition = { ok: false; conflict: TimerConflict } | { ok: true; changes: Partial<LocalUserData> };
+
+const emptyUserData = (): LocalUserData => ({
+  projects: [],
+  tasks: [],
+  tags: [],
+  defaultTagsAdded: false,
+  sessions: [],
+  sessionHistory: {},
+  breaks: [],
+  settings: null,
+  activeTimer: null,
+});
+
+const sortSessions = (sessions: Session[]) => [...sessions].sort((a, b) => b.endTime - a.endTime);
+
+// History with a closing entry added for each session that is being removed; the entries before it stay
+const withRemoval = (
+  history: Record<string, SessionChange[]>,
+  sessionIds: string[],
+  removal: SessionRemoval,
+  editor: SessionEditor
+): Record<string, SessionChange[]> => {
+  const closed = { ...history };
+  sessionIds.forEach(id => {
+    closed[id] = [{ id: crypto.randomUUID(), changedAt: Date.now(), changedBy: editor, changes: {}, removal }, ...(history[id] || [])];
+  });
+  return closed;
+};
+
+// History with what changed between two versions of a session added; unchanged if no tracked field did
+const withChange = (
+  history: Record<string, SessionChange[]>,
+  before: Session,
+  after: Session,
+  editor: SessionEditor
+): Record<string, SessionChange[]> => {
+  const changes = diffSessions(before, after);
+  if (Object.keys(changes).length === 0) return history;
+  return {
+    ...history,
+    [before.id]: [{ id: crypto.randomUUID(), changedAt: Date.now(), changedBy: editor, changes }, ...(history[before.id] || [])],
+  };
+};
+
+// Rename (`to` a name) or remove (`to` null) a tag everywhere it is stored; rollups are
+// rebuilt from sessions, so they follow
+const retag = (data: LocalUserData, tag: string, to: string | null): Partial<LocalUserData> => {
+  const { projects, tags, sessions, activeTimer } = data;
+  const changes: Partial<LocalUserData> = {
+    sessions: sessions.map(s => s.tags?.includes(tag) ? { ...s, tags: replaceTag(s.tags, tag, to) } : s),
+    projects: projects.map(p => {
+      const updates = retagProject(p, tag, to);
+      return updates ? { ...p, ...updates } : p;
+    }),
+    tags: to === null ? tags.filter(t => t.name !== tag) : renameInRegistry(tags, tag, to),
+  };
+  if (activeTimer?.tags?.includes(tag)) {
+    changes.activeTimer = { ...activeTimer, tags: replaceTag(activeTimer.tags, tag, to) };
+  }
+  return changes;
+};
+
+// Insert or replace records by id
+const upsert = <T extends { id: string }>(records: T[], ...updates: T[]): T[] => {
+  const ids = new Set(updates.map(u => u.id));
+  return [...records.filter(r => !ids.has(r.id)), ...updates];
+};
+
+// Build the stored timer; the local clock is the only clock, so times are plain ms
+const buildTimer = (timerData: Omit<ActiveTimer, 'id' | 'runId'>, now: number): ActiveTimer => {
+  const timer: ActiveTimer = {
+    ...timerData,
+    id: 'current',
+    runId: crypto.randomUUID(),
+    startTime: now,
+    pausedDuration: timerData.pausedDuration ?? 0,
+    notes: timerData.notes || '',
+    tags: timerData.tags || [],
+  };
+  if (timerData.isActive) {
+    delete timer.pausedAt;
+  } else {
+    // Created paused (e.g. the next phase of a cycle waiting to be started): no time has elapsed yet
+    timer.pausedAt = now;
+  }
+  return timer;
+};
+
+export const createLocalBackend = (persistence: LocalPersistence): StorageBackend => {
+  const stores = new Map<string, Promise<UserStore>>();
+
+  const getStore = (userId: string): Promise<UserStore> => {
+    let store = stores.get(userId);
+    if (!store) {
+      store = persistence.load(userId).then(data => {
+        const loaded: UserStore = { data: { ...emptyUserData(), ...data }, listeners: new Map() };
+        // Another tab changed the data. Reading it back under the lock keeps a read that
+        // finishes late from replacing a newer change of this tab's.
+        persistence.watch?.(userId, () => {
+          exclusive(userId, async (latest) => {
+            latest.listeners.forEach(listeners => listeners.forEach(listener => listener(latest.data)));
+          }).catch((error) => console.error('Error reloading local data:', error));
+        });
+        return loaded;
+      });
+      stores.set(userId, store);
+    }
+    return store;
+  };
+
+  // Run a change against the latest saved data, holding the lock until it is saved
+  const exclusive = async <T>(userId: string, run: (store: UserStore) => Promise<T>): Promise<T> => {
+    const store = await getStore(userId);
+    if (!persistence.lock) return run(store);
+    return persistence.lock(userId, async () => {
+      const latest = await persistence.load(userId);
+      if (latest) store.data = { ...emptyUserData(), ...latest };
+      return run(store);
+    });
+  };
+
+  const applyChanges = async (userId: string, store: UserStore, changes: Partial<LocalUserData>) => {
+    if (changes.sessions) changes = { ...changes, sessions: sortSessions(changes.sessions) };
+    store.data = { ...store.data, ...changes };
+    (Object.keys(changes) as Slice[]).forEach(slice => {
+      store.listeners.get(slice)?.forEach(listener => listener(store.data));
+    });
+    await persistence.save(userId, store.data);
+  };
+
+  const write = (userId: string, change: (data: LocalUserData) => Partial<LocalUserData>) =>
+    exclusive(userId, store => applyChanges(userId, store, change(store.data)));
+
+  const subscribe = (userId: string, slice: Slice, emit: SliceListener): Unsubscribe => {
+    let isSubscribed = true;
+    let store: UserStore | null = null;
+    const listener: SliceListener = (data) => {
+      if (isSubscribed) emit(data);
+    };
+
+    getStore(userId)
+      .then((loaded) => {
+        if (!isSubscribed) return;
+        store = loaded;
+        if (!store.listeners.has(slice)) store.listeners.set(slice, new Set());
+        store.listeners.get(slice)!.add(listener);
+        emit(store.data);
+      })
+      .catch((error) => console.error(`Error loading local ${slice}:`, error));
+
+    return () => {
+      isSubscribed = false;
+      store?.listeners.get(slice)?.delete(listener);
+    };
+  };
+
+  const runTimerTransition = async (
+    userId: string,
+    transition: (data: LocalUserData, now: number) => LocalTransition
+  ): Promise<TimerTransitionResult> => exclusive(userId, async (store) => {
+    const outcome = transition(store.data, Date.now());
+    if (outcome.ok === false) return { ok: false, conflict: outcome.conflict };
+    await applyChanges(userId, store, outcome.changes);
+    return { ok: true };
+  });
+
+  return {
+    // --- Projects ---
+
+    subscribeToProjects: (userId, callback) => subscribe(userId, 'projects', ({ projects }) => {
+      // If no projects exist (new user), create defaults
+      if (projects.length === 0) {
+        write(userId, () => ({ projects: DEFAULT_PROJECTS }));
+      } else {
+        callback(projects);
+      }
+    }),
+
+    addProject: (userId, project) =>
+      write(userId, ({ projects }) => ({ projects: [...projects, { ...project, id: crypto.randomUUID() }] })),
+
+    updateProject: (userId, projectId, updates) =>
+      write(userId, ({ projects }) => ({ projects: projects.map(p => p.id === projectId ? { ...p, ...updates } : p) })),
+
+    deleteProject: (userId, projectId, deletion, editor) =>
+      write(userId, ({ projects, tasks, sessions, sessionHistory }) => {
+        // Sub-projects move up a level
+        const parentId = projects.find(p => p.id === projectId)?.parentId ?? null;
+        const remainingProjects = projects
+          .filter(p => p.id !== projectId)
+          .map(p => p.parentId === projectId ? { ...p, parentId } : p);
+        if (deletion.action === 'reassign') {
+          let history = sessionHistory;
+          return {
+            projects: remainingProjects,
+            tasks: tasks.map(t => t.projectId === projectId ? { ...t, projectId: deletion.project.id } : t),
+            sessions: sessions.map(s => {
+              if (s.projectId !== projectId) return s;
+              const moved = { ...s, projectId: deletion.project.id, projectName: deletion.project.name, color: deletion.project.color };
+              history = withChange(history, s, moved, editor);
+              return moved;
+            }),
+            sessionHistory: history,
+          };
+        }
+        return {
+          projects: remainingProjects,
+          tasks: tasks.filter(t => t.projectId !== projectId),
+          sessions: sessions.filter(s => s.projectId !== projectId),
+          sessionHistory: withRemoval(sessionHistory, sessions.filter(s => s.projectId === projectId).map(s => s.id), { reason: 'purged' }, editor),
+        };
+      }),
+
+    // --- Tasks ---
+
+    subscribeToTasks: (userId, callback) => subscribe(userId, 'tasks', ({ tasks }) => callback(tasks)),
+
+    addTask: (userId, task) =>
+      write(userId, ({ tasks }) => ({ tasks: [...tasks, { ...task, id: crypto.randomUUID() }] })),
+
+    updateTask: (userId, taskId, updates) =>
+      write(userId, ({ tasks }) => ({ tasks: tasks.map(t => t.id === taskId ? { ...t, ...updates } : t) })),
+
+    deleteTask: (userId, taskId) =>
+      write(userId, ({ tasks }) => ({ tasks: tasks.filter(t => t.id !== taskId) })),
+
+    // --- Tags ---
+
+    subscribeToTags: (userId, callback) => {
+      // A new user's registry starts out with the default quick tags; data that already has tags only gets the flag
+      write(userId, ({ tags, defaultTagsAdded }) => defaultTagsAdded ? {} : {
+        tags: tags.length === 0 ? DEFAULT_TAGS : tags,
+        defaultTagsAdded: true,
+      }).catch((error) => console.error('Error adding the default tags:', error));
+      return subscribe(userId, 'tags', ({ tags }) => callback(tags));
+    },
+
+    addTag: (userId, tag) =>
+      write(userId, ({ tags }) => ({ tags: [...tags, { ...tag, id: crypto.randomUUID() }] })),
+
+    updateTag: (userId, tagId, updates) =>
+      write(userId, ({ tags }) => ({ tags: tags.map(t => t.id === tagId ? { ...t, ...updates } : t) })),
+
+    renameTag: async (userId, from, to) => {
+      if (!to || from === to) return;
+      await write(userId, data => retag(data, from, to));
+    },
+
+    deleteTag: (userId, name) => write(userId, data => retag(data, name, null)),
+
+    // --- Sessions ---
+
+    subscribeToSessions: (userId, since, callback) => subscribe(userId, 'sessions', ({ sessions }) =>
+      callback(sessions.filter(s => !isTrashed(s) && (since === undefined || s.endTime >= since)))
+    ),
+
+    fetchSessionsPage: async (userId, cursor, limit) => {
+      const { data } = await getStore(userId);
+      // Sessions are kept newest first; ties on endTime are broken by id, descending
+      const older = data.sessions
+        .filter(s => !isTrashed(s))
+        .filter(s => s.endTime < cursor.endTime || (s.endTime === cursor.endTime && s.id < cursor.id))
+        .sort((a, b) => b.endTime - a.endTime || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0));
+      const sessions = older.slice(0, limit);
+      const last = sessions[sessions.length - 1];
+      return {
+        sessions,
+        nextCursor: older.length > limit ? { endTime: last.endTime, id: last.id } : null,
+      };
+    },
+
+    fetchSessionsEndingBetween: async (userId, from, to) => {
+      const { data } = await getStore(userId);
+      return data.sessions.filter(s => !isTrashed(s) && s.endTime >= from && s.endTime < to);
+    },
+
+    addSession: (userId, session) =>
+      write(userId, ({ sessions }) => ({ sessions: upsert(sessions, session) })),
+
+    updateSession: (userId, session, editor) =>
+      write(userId, ({ sessions, sessionHistory }) => {
+        const previous = sessions.find(s => s.id === session.id);
+        if (!previous) return {};
+        const updated = { ...previous, ...session };
+        return {
+          sessions: sessions.map(s => s.id === session.id ? updated : s),
+          sessionHistory: withChange(sessionHistory, previous, updated, editor),
+        };
+      }),
+
+    splitSession: (userId, parts, editor) =>
+      write(userId, ({ sessions, sessionHistory }) => {
+        const original = sessions.find(s => s.id === parts[0].id);
+        return {
+          sessions: upsert(sessions, ...parts),
+          sessionHistory: original ? withChange(sessionHistory, original, parts[0], editor) : sessionHistory,
+        };
+      }),
+
+    mergeSessions: (userId, merged, removedIds, editor) =>
+      write(userId, ({ sessions, sessionHistory }) => {
+        const original = sessions.find(s => s.id === merged.id);
+        const history = original ? withChange(sessionHistory, original, merged, editor) : sessionHistory;
+        return {
+          sessions: upsert(sessions.filter(s => !removedIds.includes(s.id)), merged),
+          sessionHistory: withRemoval(history, removedIds, { reason: 'merged', into: merged.id }, editor),
+        };
+      }),
+
+    deleteSession: (userId, sessionId) =>
+      write(userId, ({ sessions }) => ({
+        sessions: sessions.map(s => s.id === sessionId && !isTrashed(s) ? { ...s, deletedAt: Date.now() } : s),
+      })),
+
+    // --- Session History ---
+
+    subscribeToSessionHistory: (userId, sessionId, callback) => subscribe(userId, 'sessionHistory', ({ sessionHistory }) =>
+      callback(sessionHistory[sessionId] || [])
+    ),
+
+    // --- Trash ---
+
+    subscribeToTrash: (userId, callback) => subscribe(userId, 'sessions', ({ sessions }) =>
+      callback(sessions.filter(isTrashed).sort((a, b) => b.deletedAt! - a.deletedAt!))
+    ),
+
+    restoreSession: (userId, sessionId) =>
+      write(userId, ({ sessions }) => ({
+        sessions: sessions.map(s => {
+          if (s.id !== sessionId) return s;
+          const { deletedAt, ...restored } = s;
+          return restored;
+        }),
+      })),
+
+    purgeSession: (userId, sessionId, editor) =>
+      write(userId, ({ sessions, sessionHistory }) => ({
+        sessions: sessions.filter(s => s.id !== sessionId),
+        sessionHistory: withRemoval(sessionHistory, [sessionId], { reason: 'purged' }, editor),
+      })),
+
+    purgeExpiredTrash: (userId, before, editor) =>
+      write(userId, ({ sessions, sessionHistory }) => {
+        const expiredIds = sessions.filter(s => isTrashed(s) && s.deletedAt! < before).map(s => s.id);
+        return {
+          sessions: sessions.filter(s => !expiredIds.includes(s.id)),
+          sessionHistory: withRemoval(sessionHistory, expiredIds, { reason: 'purged' }, editor),
+        };
+      }),
+
+    // --- Daily Rollups ---
+
+    // Every session is already in memory, so rollups are derived on the fly rather than stored
+    subscribeToDailyRollups: (userId, sinceDate, callback) => subscribe(userId, 'sessions', ({ sessions }) => {
+      const rollups = buildDailyRollups(sessions.filter(s => !isTrashed(s)));
+      callback(sinceDate === undefined ? rollups : rollups.filter(r => r.date >= sinceDate));
+    }),
+
+    // Nothing to build for rollups; tasks from before pomodoros were counted on the task get their count
+    ensureDailyRollups: (userId) =>
+      write(userId, ({ tasks, sessions }) => {
+        const counts = countTaskPomodoros(sessions);
+        const isUncounted = (task: Task) => task.pomodoros === undefined && !!counts[task.id];
+        if (!tasks.some(isUncounted)) return {};
+        return { tasks: tasks.map(t => isUncounted(t) ? { ...t, pomodoros: counts[t.id] } : t) };
+      }),
+
+    // --- Settings ---
+
+    subscribeToSettings: (userId, callback) => subscribe(userId, 'settings', ({ settings }) => {
+      if (settings) {
+        // Fill in fields added after the settings were first saved
+        callback({ ...DEFAULT_SETTINGS, ...settings });
+      } else {
+        write(userId, () => ({ settings: DEFAULT_SETTINGS }));
+      }
+    }),
+
+    updateSettings: (userId, settings) => write(userId, () => ({ settings })),
+
+    // --- Clock and Sync ---
+
+    // Nothing is shared with other devices, so this device's clock is the reference
+    getServerNow: () => Date.now(),
+    syncServerClock: async () => {},
+    subscribeToSyncStatus: (callback) => {
+      callback('synced');
+      return () => {};
+    },
+
+    // --- Active Timer ---
+
+    subscribeToActiveTimer: (userId, callback) => subscribe(userId, 'activeTimer', ({ activeTimer }) => callback(activeTimer)),
+
+    startTimer: (userId, timerData) => runTimerTransition(userId, ({ activeTimer }, now) => {
+      if (activeTimer) return { ok: false, conflict: 'already-exists' };
+      return { ok: true, changes: { activeTimer: buildTimer(timerData, now) } };
+    }),
+
+    pauseTimer: (userId, runId) => runTimerTransition(userId, ({ activeTimer }, now) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+      if (!activeTimer.isActive) return { ok: false, conflict: 'already-paused' };
+      return { ok: true, changes: { activeTimer: pauseTimerState(activeTimer, now) } };
+    }),
+
+    resumeTimer: (userId, runId) => runTimerTransition(userId, ({ activeTimer }, now) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+      if (activeTimer.isActive) return { ok: false, conflict: 'already-running' };
+      return { ok: true, changes: { activeTimer: resumeTimerState(activeTimer, now) } };
+    }),
+
+    updateTimerDuration: (userId, runId, initialDuration) => runTimerTransition(userId, ({ activeTimer }) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId || activeTimer.mode !== 'pomodoro') return { ok: false, conflict: 'stale' };
+      return { ok: true, changes: { activeTimer: changeTimerDuration(activeTimer, initialDuration) } };
+    }),
+
+    // Records are keyed by the run they finish, matching the Firestore backend
+    completeTimerPhase: (userId, runId, record, nextTimer) => runTimerTransition(userId, (data, now) => {
+      if (!data.activeTimer) return { ok: false, conflict: 'not-found' };
+      if (data.activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+
+      const changes: Partial<LocalUserData> = { activeTimer: nextTimer ? buildTimer(nextTimer, now) : null };
+      if (record.session) {
+        const session = runId ? { ...record.session, id: runId } : record.session;
+        changes.sessions = upsert(data.sessions, session);
+        if (isTaskPomodoro(session)) {
+          changes.tasks = data.tasks.map(t => t.id === session.taskId ? { ...t, pomodoros: (t.pomodoros || 0) + 1 } : t);
+        }
+      }
+      if (record.breakRecord) {
+        changes.breaks = upsert(data.breaks, runId ? { ...record.breakRecord, id: runId } : record.breakRecord);
+      }
+      return { ok: true, changes };
+    }),
+
+    stopTimer: (userId, runId) => runTimerTransition(userId, ({ activeTimer }) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+      return { ok: true, changes: { activeTimer: null } };
+    }),
+
+    updateTimerMetadata: (userId, runId, notes, tags) => runTimerTransition(userId, ({ activeTimer }) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+      return { ok: true, changes: { activeTimer: { ...activeTimer, notes, tags } } };
+    }),
+
+    updateTimerOptions: (userId, runId, options) => runTimerTransition(userId, ({ activeTimer }) => {
+      if (!activeTimer) return { ok: false, conflict: 'not-found' };
+      if (activeTimer.runId !== runId) return { ok: false, conflict: 'stale' };
+      return {
+        ok: true,
+        changes: {
+          activeTimer: {
+            ...activeTimer,
+            autoStartBreaks: options.autoStartBreaks ?? false,
+            autoStartWork: options.autoStartWork ?? false,
+            overtime: options.overtime ?? false,
+          },
+        },
+      };
+    }),
+  };
+};
+
+// Keeps data only for the lifetime of the page; handy as a fake in tests.
+// `seed` pre-populates users' data, keyed by user id.
+export const createMemoryBackend = (seed: Record<string, Partial<LocalUserData>> = {}): StorageBackend =>
+  createLocalBackend({
+    load: async (userId) => seed[userId] ? { ...emptyUserData(), ...seed[userId] } : null,
+    save: async () => {},
+  });
@@ -1,17 +1,78 @@
-export type ProjectColor = 'red' | 'green' | 'purple' | 'blue' | 'yellow';
+// A hex color (#rrggbb). Projects created before custom colors may still hold one of the
+// original names: 'red', 'green', 'purple', 'blue' or 'yellow'.
+export type ProjectColor = string;
 
 export interface Project {
   id: string;
   name: string;
   color: ProjectColor;
+  archived?: boolean; // Hidden from the timer's picker; its sessions stay in the Dashboard
+  parentId?: string | null; // Project this one is nested under (e.g. its client); top level when unset
+  timerDefaults?: ProjectTimerDefaults | null;
+  budget?: ProjectBudget | null;
+  billing?: ProjectBilling | null; // Sub-projects without their own bill at their parent's rates
 }
 
+// Time a project (sub-projects included) is meant to take, in total or per calendar week/month
+export type BudgetPeriod = 'total' | 'week' | 'month';
+
+export interface ProjectBudget {
+  period: BudgetPeriod;
+  hours: number;
+}
+
+// What a project's time is billed at
+export interface ProjectBilling {
+  hourlyRate: number;
+  currency: string; // ISO 4217 code, e.g. 'USD'
+  tagRates?: Record<string, number>; // Hourly rates for sessions with these tags, in place of hourlyRate
+}
+
+// Timer defaults a project can set for itself; anything left out falls back to Settings
+export interface ProjectTimerDefaults {
+  mode?: 'pomodoro' | 'stopwatch';
+  timerDuration?: number; // minutes
+  shortBreakDuration?: number; // minutes
+  longBreakDuration?: number; // minutes
+  tags?: string[]; // Filled in when the project is selected
+}
+
+// A tag's entry in the user's registry. Sessions store tags by name, so a tag can be used
+// without being registered; registering it gives it a color or a place among the quick tags.
+export interface TagDefinition {
+  id: string;
+  name: string;
+  color?: string | null; // Hex color
+  quick?: boolean; // Offered as a one-click tag next to the timer
+}
+
+export type TaskStatus = 'todo' | 'in-progress' | 'done';
+
+// A piece of work within a project that sessions can be logged against
+export interface Task {
+  id: string;
+  projectId: string;
+  title: string;
+  status: TaskStatus;
+  estimatedPomodoros?: number | null;
+  // Pomodoro work rounds finished on it, counted as each one is saved so later edits and merges
+  // of the sessions leave it alone; unset on tasks that have none yet
+  pomodoros?: number;
+  createdAt: number; // timestamp
+}
+
+// What happens to a project's sessions (and tasks) when the project itself is deleted.
+// Either way, its sub-projects move up to its own parent.
+export type ProjectDeletion = { action: 'reassign'; project: Project } | { action: 'delete' };
+
+// Colors derived from a project's color (see lib/colors), as CSS color values
 export interface ColorTheme {
   primary: string; // Main background/button color
+  onPrimary: string; // Text and icons on a primary background
   secondary: string; // Light background for tags/accents
   ring: string; // Timer ring color
-  text: string; // Text color on light backgrounds
-  accent: string; // Strong text color
+  text: string; // Strong text color
+  accent: string; // Text color readable on the page background
 }
 
 export interface Session {
@@ -24,26 +85,216 @@ export interface Session {
   notes: string;
   tags: string[];
   color: ProjectColor;
+  deletedAt?: number; // Set while the session is in the trash; trashed sessions count nowhere
+  billable?: boolean; // false for time that is not charged for; unset counts as billable
+  taskId?: string; // Task the session was worked on, if one was picked
+  mode?: ActiveTimer['mode']; // Timer that recorded it; unset for manual entries
+}
+
+// Session fields whose edits are kept in the session's history. The project's name and color
+// are left out: they follow projectId.
+export type TrackedSessionField = 'projectId' | 'startTime' | 'endTime' | 'durationSeconds' | 'notes' | 'tags' | 'billable';
+
+export type SessionFieldChanges = { [K in TrackedSessionField]?: { from: Session[K]; to: Session[K] } };
+
+// Whoever made a change, as shown in the history
+export interface SessionEditor {
+  uid: string;
+  name: string;
+}
+
+// Why a session no longer exists
+export type SessionRemoval = { reason: 'merged'; into: string } | { reason: 'purged' };
+
+// One entry in a session's append-only edit history
+export interface SessionChange {
+  id: string;
+  changedAt: number; // timestamp
+  changedBy: SessionEditor;
+  changes: SessionFieldChanges;
+  removal?: SessionRemoval; // Only on the last entry of a session that was merged away or purged
 }
 
 export interface Settings {
   timerDuration: number; // minutes
+  shortBreakDuration: number; // minutes
+  longBreakDuration: number; // minutes
+  longBreakInterval: number; // Work rounds before a long break
+  autoStartBreaks: boolean; // Start the break as soon as a work round ends
+  autoStartWork: boolean; // Start the next work round as soon as a break ends
+  overtime: boolean; // Keep counting past zero instead of ending the work round
   darkMode: boolean;
   activeProjectId?: string; // Currently selected project ID
 }
 
-export type AnalyticsPeriod = 'day' | 'last7days' | 'last30days' | 'all';
+export type TimerPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface BreakRecord {
+  id: string;
+  phase: Exclude<TimerPhase, 'work'>;
+  round: number; // Work round the break followed
+  startTime: number; // timestamp
+  endTime: number; // timestamp
+  durationSeconds: number;
+}
+
+// Rolling windows, and calendar-aligned periods (weeks start on Sunday)
+export type AnalyticsPreset =
+  | 'day' | 'last7days' | 'last30days'
+  | 'thisWeek' | 'lastWeek' | 'thisMonth' | 'lastMonth' | 'thisQuarter' | 'yearToDate'
+  | 'all';
+
+// Whole local days, both ends included
+export interface DateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+export type AnalyticsPeriod = AnalyticsPreset | DateRange;
+
+// Precomputed totals for one calendar day, so analytics do not have to scan raw sessions.
+// Sessions count towards the local date they ended on.
+export interface DailyRollup {
+  id: string; // Date key, YYYY-MM-DD
+  date: string; // Same as id, stored so rollups can be range-queried
+  totalSeconds: number;
+  sessionCount: number;
+  projects: Record<string, { name: string; color: ProjectColor; seconds: number }>; // Keyed by projectId
+  tags: Record<string, number>; // Seconds per tag
+  durationBuckets: Record<string, number>; // Session count per SESSION_DURATION_BUCKETS index
+}
+
+// Position in the endTime-descending session order; id breaks ties between equal end times
+export interface SessionCursor {
+  endTime: number;
+  id: string;
+}
+
+export interface SessionPage {
+  sessions: Session[]; // Newest first
+  nextCursor: SessionCursor | null; // null once there is nothing older
+}
 
 export interface ActiveTimer {
   id: string; // User ID (one timer per user)
+  runId?: string; // Changes whenever a new timer or pomodoro phase starts
   mode: 'pomodoro' | 'stopwatch';
   isActive: boolean;
-  startTime: number; // Server timestamp when timer started
+  startTime: number; // Server timestamp (ms) when timer started, compare against db.getServerNow()
   pausedAt?: number; // Server timestamp when paused (for resume calculation)
   pausedDuration: number; // Total paused time in seconds
   initialDuration?: number; // For pomodoro: total duration in seconds
+  phase?: TimerPhase; // For pomodoro: current phase of the cycle (defaults to 'work')
+  round?: number; // For pomodoro: current work round, starting at 1
+  autoStartBreaks?: boolean; // For pomodoro: copied from Settings so every device advances the cycle the same way
+  autoStartWork?: boolean;
+  overtime?: boolean;
   projectId: string;
   projectName: string;
+  taskId?: string; // Task picked before the timer started; carried through every phase of a cycle
   notes: string;
   tags: string[];
 }
+
+// Why a timer state transition was rejected: another device got there first, or Firestore is not configured
+export type TimerConflict = 'not-found' | 'already-exists' | 'already-running' | 'already-paused' | 'stale' | 'unavailable';
+
+export type TimerTransitionResult = { ok: true } | { ok: false; conflict: TimerConflict };
+
+// Whether local changes have reached Firestore yet
+export type SyncStatus = 'synced' | 'syncing' | 'offline';
+
+export type Unsubscribe = () => void;
+
+// Everything the app reads and writes goes through one of these. services/db.ts forwards to
+// whichever backend is active: Firestore for Google accounts, IndexedDB for local-only use.
+export interface StorageBackend {
+  // Projects
+  subscribeToProjects: (userId: string, callback: (projects: Project[]) => void) => Unsubscribe;
+  addProject: (userId: string, project: Omit<Project, 'id'>) => Promise<void>;
+  updateProject: (userId: string, projectId: string, updates: Partial<Project>) => Promise<void>;
+  // Reassigned sessions get a history entry for the move, deleted ones one for the purge
+  deleteProject: (userId: string, projectId: string, deletion: ProjectDeletion, editor: SessionEditor) => Promise<void>;
+
+  // Tasks
+  subscribeToTasks: (userId: string, callback: (tasks: Task[]) => void) => Unsubscribe;
+  addTask: (userId: string, task: Omit<Task, 'id'>) => Promise<void>;
+  updateTask: (userId: string, taskId: string, updates: Partial<Task>) => Promise<void>;
+  // Sessions logged against the task keep its id and count as time on a deleted task
+  deleteTask: (userId: string, taskId: string) => Promise<void>;
+
+  // Tag registry
+  subscribeToTags: (userId: string, callback: (tags: TagDefinition[]) => void) => Unsubscribe;
+  addTag: (userId: string, tag: Omit<TagDefinition, 'id'>) => Promise<void>;
+  updateTag: (userId: string, tagId: string, updates: Partial<TagDefinition>) => Promise<void>;
+  // Rename a tag on every session (trashed ones included), the running timer and project settings.
+  // Renaming to a tag that is already in use merges the two. Session history is left as it was.
+  renameTag: (userId: string, from: string, to: string) => Promise<void>;
+  // Remove a tag from everywhere renameTag reaches, and from the registry
+  deleteTag: (userId: string, name: string) => Promise<void>;
+
+  // Sessions
+  // Live sessions that ended at or after `since` (all of them when omitted)
+  subscribeToSessions: (userId: string, since: number | undefined, callback: (sessions: Session[]) => void) => Unsubscribe;
+  // One-off read of the `limit` sessions that come after `cursor`, for paging back through history
+  fetchSessionsPage: (userId: string, cursor: SessionCursor, limit: number) => Promise<SessionPage>;
+  // One-off read of the sessions that ended in [from, to), for checks the live window can't answer
+  fetchSessionsEndingBetween: (userId: string, from: number, to: number) => Promise<Session[]>;
+  addSession: (userId: string, session: Session) => Promise<void>;
+  // Also appends what changed to the session's history
+  updateSession: (userId: string, session: Session, editor: SessionEditor) => Promise<void>;
+  // The first part keeps the original's id and history, with the change appended
+  splitSession: (userId: string, parts: [Session, Session], editor: SessionEditor) => Promise<void>;
+  // The merged session keeps its history, with the change appended; the removed ones keep theirs,
+  // ending with an entry naming the session they went into
+  mergeSessions: (userId: string, merged: Session, removedIds: string[], editor: SessionEditor) => Promise<void>;
+  // Moves a session to the trash, from where it can be restored until it is purged
+  deleteSession: (userId: string, sessionId: string) => Promise<void>;
+
+  // Session history, newest change first
+  subscribeToSessionHistory: (userId: string, sessionId: string, callback: (history: SessionChange[]) => void) => Unsubscribe;
+
+  // Trash
+  // Trashed sessions, most recently deleted first
+  subscribeToTrash: (userId: string, callback: (sessions: Session[]) => void) => Unsubscribe;
+  restoreSession: (userId: string, sessionId: string) => Promise<void>;
+  // Purged sessions keep their history, ending with an entry for the purge
+  purgeSession: (userId: string, sessionId: string, editor: SessionEditor) => Promise<void>;
+  // Permanently remove sessions trashed before `before`
+  purgeExpiredTrash: (userId: string, before: number, editor: SessionEditor) => Promise<void>;
+
+  // Daily rollups (kept up to date by every session write above)
+  subscribeToDailyRollups: (userId: string, sinceDate: string | undefined, callback: (rollups: DailyRollup[]) => void) => Unsubscribe;
+  // Build rollups and task pomodoro counts from existing sessions the first time they are needed
+  ensureDailyRollups: (userId: string) => Promise<void>;
+
+  // Settings
+  subscribeToSettings: (userId: string, callback: (settings: Settings) => void) => Unsubscribe;
+  updateSettings: (userId: string, settings: Settings) => Promise<void>;
+
+  // Clock and sync
+  getServerNow: () => number; // Milliseconds on the clock timers are stored against
+  syncServerClock: (userId: string) => Promise<void>;
+  subscribeToSyncStatus: (callback: (status: SyncStatus) => void) => Unsubscribe;
+
+  // Active timer. Changes after the start name the run they apply to, and come back as a
+  // 'stale' conflict once another device has moved on to a newer one.
+  subscribeToActiveTimer: (userId: string, callback: (timer: ActiveTimer | null) => void) => Unsubscribe;
+  startTimer: (userId: string, timerData: Omit<ActiveTimer, 'id' | 'runId'>) => Promise<TimerTransitionResult>;
+  pauseTimer: (userId: string, runId: string | undefined) => Promise<TimerTransitionResult>;
+  resumeTimer: (userId: string, runId: string | undefined) => Promise<TimerTransitionResult>;
+  updateTimerDuration: (userId: string, runId: string | undefined, initialDuration: number) => Promise<TimerTransitionResult>;
+  completeTimerPhase: (
+    userId: string,
+    runId: string | undefined,
+    record: { session?: Session; breakRecord?: BreakRecord },
+    nextTimer: Omit<ActiveTimer, 'id' | 'runId'> | null
+  ) => Promise<TimerTransitionResult>;
+  stopTimer: (userId: string, runId: string | undefined) => Promise<TimerTransitionResult>;
+  updateTimerMetadata: (userId: string, runId: string | undefined, notes: string, tags: string[]) => Promise<TimerTransitionResult>;
+  updateTimerOptions: (
+    userId: string,
+    runId: string | undefined,
+    options: Pick<ActiveTimer, 'autoStartBreaks' | 'autoStartWork' | 'overtime'>
+  ) => Promise<TimerTransitionResult>;
+}